@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+import { getGameRoom, type GameRoom } from "@/lib/gameRoom";
+import { getPlayerNumber } from "@/lib/gameMachine";
+import {
+  describeRules,
+  formatFeedback,
+  formatThinkTime,
+  getRoomRules,
+} from "@/lib/rules";
+import { reviewGuesses } from "@/lib/analysis";
+
+const formatBits = (bits: number) => `${bits.toFixed(2)} bits`;
+
+// Post-game review for any finished room: replays one player's guesses with
+// the candidates left before and after each, the solver's best move in the
+// same position, and blunders (guesses that ignored earlier feedback)
+export default function AnalysisPage() {
+  const { roomCode } = useParams<{ roomCode: string }>();
+  const { user } = useAuth();
+  const [room, setRoom] = useState<GameRoom | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedPlayer, setSelectedPlayer] = useState<1 | 2 | null>(null);
+
+  useEffect(() => {
+    getGameRoom(roomCode)
+      .then(setRoom)
+      .finally(() => setLoading(false));
+  }, [roomCode]);
+
+  // Default to the viewer's own seat
+  const player =
+    selectedPlayer ?? (room && user ? getPlayerNumber(room, user.fid) : null) ?? 1;
+
+  const rules = useMemo(() => (room ? getRoomRules(room) : null), [room]);
+
+  const reviews = useMemo(() => {
+    if (!room?.winner || !rules) return [];
+    const guesses = player === 1 ? room.player1_guesses : room.player2_guesses;
+    return reviewGuesses(guesses, rules);
+  }, [room, rules, player]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Analyzing game...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!room || !room.winner || !rules) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+        <div className="max-w-2xl mx-auto mt-20">
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8 text-center">
+            <div className="text-6xl mb-4">🔍</div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+              {room ? "Game Still in Progress" : "Game Not Found"}
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              {room
+                ? "Analysis is available once the game is over."
+                : `No game with room code ${roomCode}.`}
+            </p>
+            <Link
+              href="/"
+              className="inline-block px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg transition-colors"
+            >
+              Back to Game
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const playerName = (number: 1 | 2) => {
+    const profile = number === 1 ? room.player1_profile : room.player2_profile;
+    return profile?.display_name || profile?.username || `Player ${number}`;
+  };
+  const blunders = reviews.filter((review) => review.isBlunder).length;
+  const bestMoves = reviews.filter((review) => review.isBestMove).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8 mt-8">
+          <div>
+            <h1 className="text-3xl font-bold text-indigo-900 dark:text-indigo-100">
+              Game Analysis
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Room {room.room_code} · {describeRules(rules)}
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg transition-colors"
+          >
+            Back to Game
+          </Link>
+        </div>
+
+        {/* Player picker */}
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {([1, 2] as const).map((number) => (
+            <button
+              key={number}
+              onClick={() => setSelectedPlayer(number)}
+              className={`py-2 px-4 rounded-lg font-medium transition-colors ${
+                player === number
+                  ? "bg-indigo-600 text-white"
+                  : "bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              }`}
+            >
+              {playerName(number)}
+              {Number(room.winner) === number && " 🏆"}
+            </button>
+          ))}
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4 text-center">
+            <div className="text-3xl font-bold text-indigo-600 dark:text-indigo-400">
+              {reviews.length}
+            </div>
+            <div className="text-sm text-gray-600 dark:text-gray-400">Guesses</div>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4 text-center">
+            <div className="text-3xl font-bold text-green-600 dark:text-green-400">
+              {bestMoves}
+            </div>
+            <div className="text-sm text-gray-600 dark:text-gray-400">Best moves</div>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4 text-center">
+            <div className="text-3xl font-bold text-red-600 dark:text-red-400">
+              {blunders}
+            </div>
+            <div className="text-sm text-gray-600 dark:text-gray-400">Blunders</div>
+          </div>
+        </div>
+
+        {/* Move by move */}
+        <div className="space-y-3">
+          {reviews.length === 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 text-center text-gray-600 dark:text-gray-400">
+              No guesses to review.
+            </div>
+          )}
+          {reviews.map((review, index) => (
+            <div
+              key={index}
+              className={`bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4 border-l-4 ${
+                review.isBlunder
+                  ? "border-red-500"
+                  : review.isBestMove
+                  ? "border-green-500"
+                  : "border-gray-300 dark:border-gray-600"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    #{index + 1}
+                  </span>
+                  <span className="font-mono text-xl font-bold tracking-wider text-gray-900 dark:text-white">
+                    {review.guess.number}
+                  </span>
+                  <span className="text-sm text-gray-600 dark:text-gray-300">
+                    {formatFeedback(review.guess, rules)}
+                  </span>
+                </div>
+                {review.isBlunder ? (
+                  <span className="px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 text-xs font-medium">
+                    Blunder
+                  </span>
+                ) : (
+                  review.isBestMove && (
+                    <span className="px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 text-xs font-medium">
+                      Best move
+                    </span>
+                  )
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <div>
+                  Candidates: {review.candidatesBefore.toLocaleString()} →{" "}
+                  {review.candidatesAfter.toLocaleString()}
+                </div>
+                <div>Information: {formatBits(review.entropy)}</div>
+                <div>
+                  Solver: <span className="font-mono">{review.bestGuess}</span>
+                </div>
+                <div>Best: {formatBits(review.bestEntropy)}</div>
+                {review.guess.thinkTimeMs !== undefined && (
+                  <div>Think time: {formatThinkTime(review.guess.thinkTimeMs)}</div>
+                )}
+              </div>
+              {review.isBlunder && (
+                <p className="text-xs text-red-600 dark:text-red-400 mt-2">
+                  This code was already ruled out by earlier feedback.
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
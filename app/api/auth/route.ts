@@ -1,5 +1,6 @@
 import { Errors, createClient } from "@farcaster/quick-auth";
 import { NextRequest, NextResponse } from "next/server";
+import { createSessionToken, SessionConfigError } from "@/lib/sessionToken";
 
 const client = createClient();
 
@@ -58,9 +59,12 @@ export async function GET(request: NextRequest) {
     console.log("payload", payload);
 
     // If the token was valid, `payload.sub` will be the user's Farcaster ID.
-    const userFid = payload.sub;
+    const userFid = String(payload.sub);
+
+    // Exchange the Quick Auth token for a Supabase session whose `sub` is the
+    // FID, so RLS policies and the /api/rooms handlers can identify the user.
+    const session = createSessionToken(userFid);
 
-    // Return user information for your waitlist application
     return NextResponse.json({
       success: true,
       user: {
@@ -68,12 +72,23 @@ export async function GET(request: NextRequest) {
         issuedAt: payload.iat,
         expiresAt: payload.exp,
       },
+      session: {
+        accessToken: session.token,
+        expiresAt: session.expiresAt,
+      },
     });
 
   } catch (e) {
     if (e instanceof Errors.InvalidTokenError) {
       return NextResponse.json({ message: "Invalid token" }, { status: 401 });
     }
+    if (e instanceof SessionConfigError) {
+      console.error(e.message);
+      return NextResponse.json(
+        { message: e.message, code: "server_misconfigured" },
+        { status: 500 }
+      );
+    }
     if (e instanceof Error) {
       return NextResponse.json({ message: e.message }, { status: 500 });
     }
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, readBody } from "@/lib/roomServer";
+
+// Local stand-in for a Farcaster client's notification endpoint, so
+// notifications can be exercised offline. Point a notification_tokens row's
+// `url` at http://localhost:3000/api/dev/notifications; tokens starting with
+// "invalid" are reported back as invalid. Disabled in production.
+
+interface ReceivedNotification {
+  notificationId: string;
+  title: string;
+  body: string;
+  targetUrl: string;
+  tokens: string[];
+  receivedAt: string;
+}
+
+const MAX_KEPT = 50;
+const received: ReceivedNotification[] = [];
+
+const isEnabled = () => process.env.NODE_ENV !== "production";
+
+// POST /api/dev/notifications
+// Body: the Farcaster send-notification request
+export async function POST(request: NextRequest) {
+  if (!isEnabled()) {
+    return errorResponse("Not found", 404);
+  }
+
+  const body = await readBody<Partial<ReceivedNotification>>(request);
+  if (
+    !body ||
+    typeof body.notificationId !== "string" ||
+    typeof body.title !== "string" ||
+    typeof body.body !== "string" ||
+    typeof body.targetUrl !== "string" ||
+    !Array.isArray(body.tokens) ||
+    !body.tokens.every((token) => typeof token === "string")
+  ) {
+    return errorResponse("Invalid request body", 400);
+  }
+
+  const notification = {
+    notificationId: body.notificationId,
+    title: body.title,
+    body: body.body,
+    targetUrl: body.targetUrl,
+    tokens: body.tokens,
+    receivedAt: new Date().toISOString(),
+  };
+  received.unshift(notification);
+  received.splice(MAX_KEPT);
+  console.log("Notification received:", notification);
+
+  const invalidTokens = body.tokens.filter((token) =>
+    token.startsWith("invalid")
+  );
+  return NextResponse.json({
+    result: {
+      successfulTokens: body.tokens.filter(
+        (token) => !invalidTokens.includes(token)
+      ),
+      invalidTokens,
+      rateLimitedTokens: [],
+    },
+  });
+}
+
+// GET /api/dev/notifications
+// Lists the most recent notifications received, newest first
+export async function GET() {
+  if (!isEnabled()) {
+    return errorResponse("Not found", 404);
+  }
+  return NextResponse.json({ notifications: received });
+}
@@ -0,0 +1,87 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getRequestUserId } from "@/lib/sessionToken";
+import { errorResponse, readBody } from "@/lib/roomServer";
+import { notifyFriendRequest, notifyInvite } from "@/lib/notifications";
+
+const TABLES = {
+  invite: "game_invites",
+  friend_request: "friend_requests",
+} as const;
+
+type NotificationType = keyof typeof TABLES;
+
+// POST /api/notifications
+// Body: { type: "invite" | "friend_request", id: number }
+// Invites and friend requests are inserted by the client under RLS; it then
+// calls this so the server can notify the recipient. Only the sender of a
+// pending row can trigger its notification, and only once: the row's
+// notified_at is stamped before sending.
+export async function POST(request: NextRequest) {
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const body = await readBody<{ type?: unknown; id?: unknown }>(request);
+  if (
+    !body ||
+    typeof body.type !== "string" ||
+    !(body.type in TABLES) ||
+    typeof body.id !== "number"
+  ) {
+    return errorResponse("Invalid request body", 400);
+  }
+
+  const type = body.type as NotificationType;
+  const supabase = createAdminClient();
+  const { data: row, error } = await supabase
+    .from(TABLES[type])
+    .select("*")
+    .eq("id", body.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading notification source:", error);
+    return errorResponse("Failed to load request", 500);
+  }
+  if (!row || row.from_user_id !== userId) {
+    return errorResponse("Not found", 404);
+  }
+  if (row.status !== "pending") {
+    return errorResponse("Request is no longer pending", 409);
+  }
+
+  // Claim the notification so a repeated call can't send it again
+  const { data: claimed, error: claimError } = await supabase
+    .from(TABLES[type])
+    .update({ notified_at: new Date().toISOString() })
+    .eq("id", row.id)
+    .is("notified_at", null)
+    .select("id");
+
+  if (claimError) {
+    console.error("Error claiming notification:", claimError);
+    return errorResponse("Failed to update request", 500);
+  }
+  if (!claimed || claimed.length === 0) {
+    return errorResponse("Recipient has already been notified", 409);
+  }
+
+  after(async () => {
+    const { data: sender } = await supabase
+      .from("user_profiles")
+      .select("username, display_name")
+      .eq("id", userId)
+      .maybeSingle();
+    const fromName = sender?.display_name || sender?.username || "A friend";
+
+    if (type === "invite") {
+      await notifyInvite(supabase, row, fromName);
+    } else {
+      await notifyFriendRequest(supabase, row, fromName);
+    }
+  });
+
+  return NextResponse.json({ success: true });
+}
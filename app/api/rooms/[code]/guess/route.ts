@@ -0,0 +1,108 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getRequestUserId } from "@/lib/sessionToken";
+import { getPlayerNumber, playBotTurn, submitGuess } from "@/lib/gameMachine";
+import { BOT_THINK_MS, chooseBotGuess } from "@/lib/bot";
+import { notifyTurn } from "@/lib/notifications";
+import { getRoomRules, opponentOf, type Guess } from "@/lib/rules";
+import {
+  conflictResponse,
+  errorResponse,
+  gameErrorResponse,
+  loadRoom,
+  readBody,
+  recordGameResult,
+  saveRoom,
+} from "@/lib/roomServer";
+
+// POST /api/rooms/:code/guess
+// Body: { guess: string }, authenticated by the session token
+// Scores the guess against the opponent's stored secret so the client never
+// needs to see it, then applies the turn, clock and winner logic. In bot rooms
+// the bot's reply is played and saved in the same update, so the bot's turn
+// never depends on the human's client; its clock is charged a simulated think
+// time (BOT_THINK_MS) per move.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code: roomCode } = await params;
+
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const body = await readBody<{ guess?: string }>(request);
+  if (!body || typeof body.guess !== "string") {
+    return errorResponse("Invalid request body", 400);
+  }
+
+  const supabase = createAdminClient();
+  const room = await loadRoom(supabase, roomCode);
+  if (!room) {
+    return errorResponse("Room not found", 404);
+  }
+
+  const playerNumber = getPlayerNumber(room, userId);
+  const secrets = new Map<number, string>();
+  if (playerNumber) {
+    const { data: secretRows } = await supabase
+      .from("game_secrets")
+      .select("player_number, secret")
+      .eq("room_code", roomCode);
+    secretRows?.forEach((row) => secrets.set(row.player_number, row.secret));
+  }
+
+  const now = Date.now();
+  const result = submitGuess(
+    room,
+    userId,
+    body.guess,
+    playerNumber ? secrets.get(opponentOf(playerNumber)) ?? null : null,
+    now
+  );
+  if (!result.ok) {
+    return gameErrorResponse(result.error);
+  }
+
+  let update = result.update;
+  let winner = result.winner;
+  let botGuess: Guess | undefined;
+  if (room.bot_level && !winner) {
+    const afterGuess = { ...room, ...result.update };
+    const reply = playBotTurn(
+      afterGuess,
+      userId,
+      chooseBotGuess(room.bot_level, getRoomRules(room), room.player2_guesses),
+      secrets.get(1) ?? null,
+      now,
+      BOT_THINK_MS[room.bot_level]
+    );
+    if (!reply.ok) {
+      return gameErrorResponse(reply.error);
+    }
+    update = { ...update, ...reply.update };
+    winner = reply.winner;
+    botGuess = reply.guess ?? undefined;
+  }
+
+  // The version check also guards against a turn change since the load
+  if (!(await saveRoom(supabase, room, update))) {
+    return conflictResponse();
+  }
+
+  if (winner) {
+    await recordGameResult(supabase, roomCode, userId);
+  } else if (playerNumber && !room.bot_level) {
+    const moved = { ...room, ...update };
+    after(() => notifyTurn(supabase, moved, opponentOf(playerNumber)));
+  }
+
+  return NextResponse.json({
+    success: true,
+    guess: result.guess,
+    winner,
+    botGuess,
+  });
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getRequestUserId } from "@/lib/sessionToken";
+import { joinRoom } from "@/lib/gameMachine";
+import {
+  conflictResponse,
+  errorResponse,
+  gameErrorResponse,
+  loadRoom,
+  saveRoom,
+} from "@/lib/roomServer";
+
+// POST /api/rooms/:code/join
+// Takes the open player 2 seat.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code: roomCode } = await params;
+
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const supabase = createAdminClient();
+  const room = await loadRoom(supabase, roomCode);
+  if (!room) {
+    return errorResponse("Room not found", 404);
+  }
+
+  const result = joinRoom(room, userId);
+  if (!result.ok) {
+    return gameErrorResponse(result.error);
+  }
+
+  if (!(await saveRoom(supabase, room, result.update))) {
+    return conflictResponse();
+  }
+
+  return NextResponse.json({ success: true, playerNumber: 2 });
+}
@@ -0,0 +1,114 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getRequestUserId } from "@/lib/sessionToken";
+import {
+  acceptRematch,
+  declineRematch,
+  generateRoomCode,
+  getPlayerNumber,
+  offerRematch,
+} from "@/lib/gameMachine";
+import { notifyRematch } from "@/lib/notifications";
+import { opponentOf } from "@/lib/rules";
+import {
+  conflictResponse,
+  errorResponse,
+  gameErrorResponse,
+  loadRoom,
+  readBody,
+  saveRoom,
+} from "@/lib/roomServer";
+
+const MAX_CODE_ATTEMPTS = 5;
+
+// POST /api/rooms/:code/rematch
+// Body: { action: "offer" | "accept" | "decline" }
+// Rematch a finished two-player room. Accepting creates the new room with
+// both seats filled (swapped, so the other player moves first) and returns
+// { rematchRoomCode }; the offering player picks it up from the room update.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code: roomCode } = await params;
+
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const body = await readBody<{ action?: unknown }>(request);
+  if (
+    !body ||
+    (body.action !== "offer" &&
+      body.action !== "accept" &&
+      body.action !== "decline")
+  ) {
+    return errorResponse("Invalid request body", 400);
+  }
+
+  const supabase = createAdminClient();
+  const room = await loadRoom(supabase, roomCode);
+  if (!room) {
+    return errorResponse("Room not found", 404);
+  }
+
+  if (body.action !== "accept") {
+    const result =
+      body.action === "offer"
+        ? offerRematch(room, userId)
+        : declineRematch(room, userId);
+    if (!result.ok) {
+      return gameErrorResponse(result.error);
+    }
+    if (!(await saveRoom(supabase, room, result.update))) {
+      return conflictResponse();
+    }
+
+    // A repeated offer has an empty update; only notify the first time
+    const playerNumber = getPlayerNumber(room, userId);
+    if (result.update.rematch_offered_by && playerNumber) {
+      after(async () => {
+        const { data: sender } = await supabase
+          .from("user_profiles")
+          .select("username, display_name")
+          .eq("id", userId)
+          .maybeSingle();
+        await notifyRematch(
+          supabase,
+          room,
+          opponentOf(playerNumber),
+          sender?.display_name || sender?.username || "Your opponent"
+        );
+      });
+    }
+    return NextResponse.json({ success: true });
+  }
+
+  // Retry on the (rare) room code collision
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const result = acceptRematch(room, userId, generateRoomCode());
+    if (!result.ok) {
+      return gameErrorResponse(result.error);
+    }
+
+    const { error } = await supabase.from("game_rooms").insert([result.rematch]);
+    if (error) {
+      // 23505 = unique_violation on room_code
+      if (error.code === "23505") continue;
+      console.error("Error creating rematch room:", error);
+      return errorResponse(`Failed to create rematch: ${error.message}`, 500);
+    }
+
+    // Link the old room; if it changed meanwhile, drop the new one
+    const rematchRoomCode = result.rematch.room_code;
+    if (!(await saveRoom(supabase, room, result.update))) {
+      await supabase.from("game_rooms").delete().eq("room_code", rematchRoomCode);
+      return conflictResponse();
+    }
+
+    return NextResponse.json({ success: true, rematchRoomCode });
+  }
+
+  return errorResponse("Failed to create rematch: no free room code", 503);
+}
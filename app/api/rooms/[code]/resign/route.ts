@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getRequestUserId } from "@/lib/sessionToken";
+import { resign } from "@/lib/gameMachine";
+import {
+  conflictResponse,
+  errorResponse,
+  gameErrorResponse,
+  loadRoom,
+  recordGameResult,
+  saveRoom,
+} from "@/lib/roomServer";
+
+// POST /api/rooms/:code/resign
+// Leaves the room: frees the seat (or deletes an empty room, or cancels one
+// whose opponent never picked a secret) before the game starts, forfeits to
+// the opponent during it.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code: roomCode } = await params;
+
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const supabase = createAdminClient();
+  const room = await loadRoom(supabase, roomCode);
+  if (!room) {
+    return errorResponse("Room not found", 404);
+  }
+
+  const result = resign(room, userId, Date.now());
+  if (!result.ok) {
+    return gameErrorResponse(result.error);
+  }
+
+  if (result.effect === "delete") {
+    let query = supabase
+      .from("game_rooms")
+      .delete()
+      .eq("room_code", roomCode)
+      .eq("game_started", false);
+    // Someone may have taken the open seat, or the late opponent picked
+    // their secret, since the room was loaded
+    if (!room.bot_level) {
+      query = room.player2_id
+        ? query.eq("player2_id", room.player2_id).eq("player2_ready", false)
+        : query.is("player2_id", null);
+    }
+    const { data: deleted, error } = await query.select("room_code");
+
+    if (error) {
+      console.error("Error deleting room:", error);
+      return errorResponse(error.message, 500);
+    }
+    if (!deleted || deleted.length === 0) {
+      return conflictResponse();
+    }
+    return NextResponse.json({ success: true });
+  }
+
+  if (result.effect === "update") {
+    if (!(await saveRoom(supabase, room, result.update))) {
+      return conflictResponse();
+    }
+
+    if (result.update.winner) {
+      await recordGameResult(supabase, roomCode, userId);
+    } else {
+      // Player 2 gave up their seat before the start; drop their secret
+      await supabase
+        .from("game_secrets")
+        .delete()
+        .eq("room_code", roomCode)
+        .eq("player_number", 2);
+    }
+  }
+
+  return NextResponse.json({ success: true });
+}
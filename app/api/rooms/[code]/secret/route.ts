@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getRequestUserId } from "@/lib/sessionToken";
+import { createCommitment, generateSalt } from "@/lib/commitment";
+import { getPlayerNumber, setSecret } from "@/lib/gameMachine";
+import {
+  errorResponse,
+  gameErrorResponse,
+  loadRoom,
+  readBody,
+} from "@/lib/roomServer";
+
+// GET /api/rooms/:code/secret
+// Returns the caller's own secret. The opponent's secret and salt are only
+// included once the game has a winner, so the commitment can be verified.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code: roomCode } = await params;
+
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const supabase = createAdminClient();
+  const room = await loadRoom(supabase, roomCode);
+  if (!room) {
+    return errorResponse("Room not found", 404);
+  }
+
+  const playerNumber = getPlayerNumber(room, userId);
+  if (!playerNumber) {
+    return errorResponse("You are not a player in this room", 403);
+  }
+
+  const { data: secrets, error } = await supabase
+    .from("game_secrets")
+    .select("player_number, secret, salt")
+    .eq("room_code", roomCode);
+
+  if (error) {
+    console.error("Error fetching secrets:", error);
+    return errorResponse(error.message, 500);
+  }
+
+  const rowFor = (n: 1 | 2) => secrets?.find((s) => s.player_number === n);
+  const own = rowFor(playerNumber);
+  const opponent = room.winner ? rowFor(playerNumber === 1 ? 2 : 1) : undefined;
+
+  return NextResponse.json({
+    secret: own?.secret ?? null,
+    salt: own?.salt ?? null,
+    opponentSecret: opponent?.secret ?? null,
+    opponentSalt: opponent?.salt ?? null,
+  });
+}
+
+// POST /api/rooms/:code/secret
+// Body: { secret: string }, authenticated by the session token
+// Stores the caller's secret with a fresh salt in game_secrets, publishes the
+// salted hash commitment on the room and marks them ready, all in one
+// transaction (set_player_secret). Rejected once the game has started.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code: roomCode } = await params;
+
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const body = await readBody<{ secret?: string }>(request);
+  if (!body || typeof body.secret !== "string") {
+    return errorResponse("Invalid request body", 400);
+  }
+
+  const supabase = createAdminClient();
+  const room = await loadRoom(supabase, roomCode);
+  if (!room) {
+    return errorResponse("Room not found", 404);
+  }
+
+  const salt = generateSalt();
+  const commitment = await createCommitment(body.secret, salt);
+
+  const result = setSecret(room, userId, body.secret, commitment);
+  if (!result.ok) {
+    return gameErrorResponse(result.error);
+  }
+
+  // Only this player's columns change, so both players may mark ready at the
+  // same time; the function locks the room and checks it hasn't started
+  // instead of using the version lock
+  const { data: saved, error } = await supabase.rpc("set_player_secret", {
+    p_room_code: roomCode,
+    p_player_number: result.playerNumber,
+    p_secret: body.secret,
+    p_salt: salt,
+    p_commitment: commitment,
+  });
+
+  if (error) {
+    console.error("Error setting secret:", error);
+    return errorResponse(error.message, 500);
+  }
+
+  if (!saved) {
+    return errorResponse(
+      "Secrets cannot be changed after the game has started",
+      409
+    );
+  }
+
+  return NextResponse.json({ success: true, playerNumber: result.playerNumber });
+}
@@ -0,0 +1,50 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getRequestUserId } from "@/lib/sessionToken";
+import { getPlayerNumber, startGame } from "@/lib/gameMachine";
+import { notifyTurn } from "@/lib/notifications";
+import {
+  conflictResponse,
+  errorResponse,
+  gameErrorResponse,
+  loadRoom,
+  saveRoom,
+} from "@/lib/roomServer";
+
+// POST /api/rooms/:code/start
+// Starts the clock once both players are ready. Either player may call it;
+// only the first call succeeds.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code: roomCode } = await params;
+
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const supabase = createAdminClient();
+  const room = await loadRoom(supabase, roomCode);
+  if (!room) {
+    return errorResponse("Room not found", 404);
+  }
+
+  const result = startGame(room, userId, Date.now());
+  if (!result.ok) {
+    return gameErrorResponse(result.error);
+  }
+
+  if (!(await saveRoom(supabase, room, result.update))) {
+    return conflictResponse();
+  }
+
+  // Player 1 always moves first
+  if (getPlayerNumber(room, userId) !== 1) {
+    const started = { ...room, ...result.update };
+    after(() => notifyTurn(supabase, started, 1));
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getRequestUserId } from "@/lib/sessionToken";
+import { claimTimeout, getPlayerNumber } from "@/lib/gameMachine";
+import {
+  conflictResponse,
+  errorResponse,
+  gameErrorResponse,
+  loadRoom,
+  recordGameResult,
+  saveRoom,
+} from "@/lib/roomServer";
+
+// POST /api/rooms/:code/timeout
+// Ends the game if the player to move has run out of time. The clock is
+// checked server-side, so either player can claim it. Loading the room already
+// settles a flagged clock, so a claim on a game that ended on time succeeds.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code: roomCode } = await params;
+
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const supabase = createAdminClient();
+  // The claimer is the actor even when loading the room settles the clock
+  const room = await loadRoom(supabase, roomCode, userId);
+  if (!room) {
+    return errorResponse("Room not found", 404);
+  }
+
+  if (room.winner && getPlayerNumber(room, userId)) {
+    return NextResponse.json({ success: true, winner: room.winner });
+  }
+
+  const result = claimTimeout(room, userId, Date.now());
+  if (!result.ok) {
+    return gameErrorResponse(result.error);
+  }
+
+  if (!(await saveRoom(supabase, room, result.update))) {
+    return conflictResponse();
+  }
+
+  await recordGameResult(supabase, roomCode, userId);
+
+  return NextResponse.json({ success: true, winner: result.update.winner });
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getRequestUserId } from "@/lib/sessionToken";
+import { getPlayerNumber } from "@/lib/gameMachine";
+import { errorResponse, loadRoom } from "@/lib/roomServer";
+import type { SpectatorView } from "@/lib/gameRoom";
+
+// GET /api/rooms/:code/watch
+// Spectator view of a room: the room with both players' names, plus both
+// secrets once the game has a winner (never before). Rooms with
+// spectators = "friends" are only shown to the players and their friends;
+// everyone else may watch without signing in.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code: roomCode } = await params;
+  const userId = getRequestUserId(request);
+
+  const supabase = createAdminClient();
+  const room = await loadRoom(supabase, roomCode);
+  if (!room) {
+    return errorResponse("Room not found", 404);
+  }
+
+  const playerIds = [room.player1_id, room.player2_id].filter(
+    (id): id is string => !!id
+  );
+
+  if (room.spectators === "friends") {
+    if (!userId) {
+      return errorResponse("Sign in to watch this game", 401);
+    }
+    if (!getPlayerNumber(room, userId)) {
+      const { data: friendship, error } = await supabase
+        .from("friendships")
+        .select("id")
+        .eq("user_id", userId)
+        .in("friend_id", playerIds)
+        .limit(1);
+
+      if (error) {
+        console.error("Error checking friendship:", error);
+        return errorResponse(error.message, 500);
+      }
+      if (!friendship || friendship.length === 0) {
+        return errorResponse(
+          "Only friends of the players can watch this game",
+          403
+        );
+      }
+    }
+  }
+
+  const { data: profiles } = await supabase
+    .from("user_profiles")
+    .select("id, username, display_name")
+    .in("id", playerIds);
+
+  const profileOf = (id: string | null | undefined) => {
+    const profile = profiles?.find((p) => p.id === id);
+    return profile
+      ? { username: profile.username, display_name: profile.display_name }
+      : null;
+  };
+
+  let secrets: SpectatorView["secrets"] = null;
+  if (room.winner) {
+    const { data, error } = await supabase
+      .from("game_secrets")
+      .select("player_number, secret")
+      .eq("room_code", roomCode);
+
+    if (error) {
+      console.error("Error fetching secrets:", error);
+      return errorResponse(error.message, 500);
+    }
+
+    const secretOf = (n: 1 | 2) =>
+      data?.find((s) => s.player_number === n)?.secret ?? null;
+    secrets = { player1: secretOf(1), player2: secretOf(2) };
+  }
+
+  return NextResponse.json<SpectatorView>({
+    room: {
+      ...room,
+      player1_profile: profileOf(room.player1_id),
+      player2_profile: profileOf(room.player2_id),
+    },
+    secrets,
+  });
+}
@@ -0,0 +1,288 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getRequestUserId } from "@/lib/sessionToken";
+import { createRoom, generateRoomCode } from "@/lib/gameMachine";
+import { errorResponse, readBody } from "@/lib/roomServer";
+import { notifyMatchFound } from "@/lib/notifications";
+import {
+  parseRules,
+  parseTimeControl,
+  type GameRules,
+  type TimeControl,
+} from "@/lib/rules";
+import {
+  getQueueKey,
+  QUEUE_STALE_MS,
+  QUEUE_TIMEOUT_MS,
+  type QueueStatus,
+} from "@/lib/matchmaking";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface QueueEntry {
+  queue_key: string;
+  matched: boolean;
+  room_code: string | null;
+  created_at: string;
+}
+
+const MAX_CODE_ATTEMPTS = 5;
+
+const loadQueueEntry = (supabase: AdminClient, userId: string) =>
+  supabase
+    .from("matchmaking_queue")
+    .select("queue_key, matched, room_code, created_at")
+    .eq("user_id", userId)
+    .maybeSingle<QueueEntry>();
+
+// Status for a caller an opponent has already claimed. The room code arrives
+// once the opponent has created the room; the entry is dropped then.
+const claimedStatus = async (
+  supabase: AdminClient,
+  userId: string,
+  entry: QueueEntry
+): Promise<NextResponse<QueueStatus>> => {
+  if (entry.room_code) {
+    await supabase.from("matchmaking_queue").delete().eq("user_id", userId);
+    return NextResponse.json<QueueStatus>({
+      status: "matched",
+      roomCode: entry.room_code,
+    });
+  }
+  return NextResponse.json<QueueStatus>({
+    status: "queued",
+    since: entry.created_at,
+  });
+};
+
+// Room for a pairing: whoever waited longer is player 1 and moves first
+const createMatchRoom = async (
+  supabase: AdminClient,
+  player1Id: string,
+  player2Id: string,
+  timeControl: TimeControl,
+  rules: GameRules,
+  rated: boolean
+): Promise<string | null> => {
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const roomCode = generateRoomCode();
+    const { error } = await supabase.from("game_rooms").insert([
+      {
+        ...createRoom(roomCode, player1Id, { timeControl, rules, rated }),
+        player2_id: player2Id,
+      },
+    ]);
+
+    if (!error) return roomCode;
+    // 23505 = unique_violation on room_code
+    if (error.code !== "23505") {
+      console.error("Error creating match room:", error);
+      return null;
+    }
+  }
+  return null;
+};
+
+// POST /api/rooms/queue
+// Body: { timeControl?: TimeControl, rules?: GameRules, rated?: boolean }
+// Joins the matchmaking queue, or refreshes the caller's entry (clients call
+// this every QUEUE_HEARTBEAT_MS while waiting). Pairs the caller with the
+// longest-waiting compatible player if there is one, creating the room with
+// both seats filled. Returns a QueueStatus; the waiting player also gets the
+// room code through a realtime update of their queue entry.
+export async function POST(request: NextRequest) {
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const body = await readBody<{
+    timeControl?: unknown;
+    rules?: unknown;
+    rated?: unknown;
+  }>(request);
+  if (!body) {
+    return errorResponse("Invalid request body", 400);
+  }
+
+  const timeControl = parseTimeControl(body.timeControl);
+  if (!timeControl) {
+    return errorResponse("Invalid time control", 400);
+  }
+
+  const rules = parseRules(body.rules);
+  if (!rules) {
+    return errorResponse("Invalid rules", 400);
+  }
+
+  if (body.rated !== undefined && typeof body.rated !== "boolean") {
+    return errorResponse("Invalid rated setting", 400);
+  }
+  const rated = body.rated === true;
+
+  const supabase = createAdminClient();
+  const now = Date.now();
+  const queueKey = getQueueKey(timeControl, rules, rated);
+
+  // Forget players who stopped sending heartbeats
+  await supabase
+    .from("matchmaking_queue")
+    .delete()
+    .eq("matched", false)
+    .lt("last_seen_at", new Date(now - QUEUE_STALE_MS).toISOString());
+  await supabase
+    .from("matchmaking_queue")
+    .delete()
+    .eq("matched", true)
+    .lt("last_seen_at", new Date(now - QUEUE_TIMEOUT_MS).toISOString());
+
+  const { data: entry, error: entryError } = await loadQueueEntry(
+    supabase,
+    userId
+  );
+
+  if (entryError) {
+    console.error("Error loading queue entry:", entryError);
+    return errorResponse(entryError.message, 500);
+  }
+
+  // Someone else already paired with us
+  if (entry?.matched) {
+    return claimedStatus(supabase, userId, entry);
+  }
+
+  const sameQueue = entry?.queue_key === queueKey;
+  const waitedMs = entry ? now - new Date(entry.created_at).getTime() : 0;
+  if (sameQueue && waitedMs > QUEUE_TIMEOUT_MS) {
+    await supabase.from("matchmaking_queue").delete().eq("user_id", userId);
+    return NextResponse.json<QueueStatus>({ status: "timed_out" });
+  }
+
+  const { data: opponentId, error: claimError } = await supabase.rpc(
+    "claim_queue_opponent",
+    {
+      p_user_id: userId,
+      p_queue_key: queueKey,
+      p_live_after: new Date(now - QUEUE_STALE_MS).toISOString(),
+    }
+  );
+
+  if (claimError) {
+    console.error("Error claiming opponent:", claimError);
+    return errorResponse(claimError.message, 500);
+  }
+
+  if (opponentId) {
+    const roomCode = await createMatchRoom(
+      supabase,
+      opponentId,
+      userId,
+      timeControl,
+      rules,
+      rated
+    );
+
+    if (!roomCode) {
+      // Put the opponent back in line
+      await supabase
+        .from("matchmaking_queue")
+        .update({ matched: false })
+        .eq("user_id", opponentId);
+      return errorResponse("Failed to create game room", 500);
+    }
+
+    await supabase
+      .from("matchmaking_queue")
+      .update({ room_code: roomCode })
+      .eq("user_id", opponentId);
+    after(() => notifyMatchFound(supabase, opponentId, roomCode));
+
+    return NextResponse.json<QueueStatus>({ status: "matched", roomCode });
+  }
+
+  // Nobody to pair with: wait (or keep waiting) in this queue. A NULL claim
+  // also means another player may have claimed us since the entry was read,
+  // so only an unmatched entry is refreshed and a new one is only inserted if
+  // none exists; otherwise the claim wins.
+  const since = sameQueue ? entry.created_at : new Date(now).toISOString();
+  const waiting = {
+    queue_key: queueKey,
+    time_control: timeControl,
+    rules,
+    created_at: since,
+    last_seen_at: new Date(now).toISOString(),
+  };
+  const { data: saved, error: saveError } = entry
+    ? await supabase
+        .from("matchmaking_queue")
+        .update(waiting)
+        .eq("user_id", userId)
+        .eq("matched", false)
+        .select("user_id")
+    : await supabase
+        .from("matchmaking_queue")
+        .upsert(
+          { user_id: userId, ...waiting },
+          { onConflict: "user_id", ignoreDuplicates: true }
+        )
+        .select("user_id");
+
+  if (saveError) {
+    console.error("Error joining queue:", saveError);
+    return errorResponse(saveError.message, 500);
+  }
+
+  if (!saved || saved.length === 0) {
+    const { data: current, error: currentError } = await loadQueueEntry(
+      supabase,
+      userId
+    );
+    if (currentError) {
+      console.error("Error loading queue entry:", currentError);
+      return errorResponse(currentError.message, 500);
+    }
+    if (current?.matched) {
+      return claimedStatus(supabase, userId, current);
+    }
+  }
+
+  return NextResponse.json<QueueStatus>({ status: "queued", since });
+}
+
+// DELETE /api/rooms/queue
+// Leaves the queue. Returns the room instead if the caller was already paired.
+export async function DELETE(request: NextRequest) {
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const supabase = createAdminClient();
+  const { data: removed, error } = await supabase
+    .from("matchmaking_queue")
+    .delete()
+    .eq("user_id", userId)
+    .eq("matched", false)
+    .select("user_id");
+
+  if (error) {
+    console.error("Error leaving queue:", error);
+    return errorResponse(error.message, 500);
+  }
+
+  if (removed && removed.length > 0) {
+    return NextResponse.json({ success: true });
+  }
+
+  // Not waiting, or already claimed by an opponent
+  const { data: entry } = await supabase
+    .from("matchmaking_queue")
+    .select("room_code")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (entry?.room_code) {
+    await supabase.from("matchmaking_queue").delete().eq("user_id", userId);
+  }
+  return NextResponse.json({ success: true, roomCode: entry?.room_code ?? null });
+}
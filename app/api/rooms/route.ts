@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getRequestUserId } from "@/lib/sessionToken";
+import { createRoom, generateRoomCode, seatBot } from "@/lib/gameMachine";
+import { errorResponse, readBody } from "@/lib/roomServer";
+import { parseRules, parseTimeControl } from "@/lib/rules";
+import { createBotSecret, isBotLevel } from "@/lib/bot";
+import { createCommitment, generateSalt } from "@/lib/commitment";
+import type { GameRoom } from "@/lib/gameRoom";
+
+const MAX_CODE_ATTEMPTS = 5;
+
+// POST /api/rooms
+// Body: { timeControl?: TimeControl, rules?: GameRules, bot?: BotLevel,
+//         assistant?: boolean, rated?: boolean, public?: boolean,
+//         spectators?: "everyone" | "friends" }
+// Creates a room with the caller as player 1 and returns its code. With `bot`,
+// the computer takes the player 2 seat with a committed secret right away.
+// `assistant: false` turns off the notepad candidates assistant for both players.
+// `rated: true` makes the game count toward ratings; rated games are played
+// without the assistant and never against the computer. `public: true` lists
+// the room in the lobby until someone takes the player 2 seat. `spectators`
+// limits who may watch the game live.
+export async function POST(request: NextRequest) {
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const body = await readBody<{
+    timeControl?: unknown;
+    rules?: unknown;
+    bot?: unknown;
+    assistant?: unknown;
+    rated?: unknown;
+    public?: unknown;
+    spectators?: unknown;
+  }>(request);
+  if (!body) {
+    return errorResponse("Invalid request body", 400);
+  }
+
+  const timeControl = parseTimeControl(body.timeControl);
+  if (!timeControl) {
+    return errorResponse("Invalid time control", 400);
+  }
+
+  const rules = parseRules(body.rules);
+  if (!rules) {
+    return errorResponse("Invalid rules", 400);
+  }
+
+  if (body.bot !== undefined && !isBotLevel(body.bot)) {
+    return errorResponse("Invalid bot level", 400);
+  }
+
+  if (body.assistant !== undefined && typeof body.assistant !== "boolean") {
+    return errorResponse("Invalid assistant setting", 400);
+  }
+
+  if (body.rated !== undefined && typeof body.rated !== "boolean") {
+    return errorResponse("Invalid rated setting", 400);
+  }
+
+  if (body.rated && body.bot) {
+    return errorResponse("Games against the computer can't be rated", 400);
+  }
+
+  if (body.public !== undefined && typeof body.public !== "boolean") {
+    return errorResponse("Invalid public setting", 400);
+  }
+
+  if (body.public && body.bot) {
+    return errorResponse("Games against the computer can't be public", 400);
+  }
+
+  if (
+    body.spectators !== undefined &&
+    body.spectators !== "everyone" &&
+    body.spectators !== "friends"
+  ) {
+    return errorResponse("Invalid spectators setting", 400);
+  }
+
+  let bot: { secret: string; salt: string; update: Partial<GameRoom> } | null =
+    null;
+  if (body.bot) {
+    const secret = createBotSecret(rules);
+    const salt = generateSalt();
+    const commitment = await createCommitment(secret, salt);
+    bot = { secret, salt, update: seatBot(body.bot, commitment) };
+  }
+
+  const supabase = createAdminClient();
+
+  // Retry on the (rare) room code collision
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const roomCode = generateRoomCode();
+    const { error } = await supabase
+      .from("game_rooms")
+      .insert([
+        {
+          ...createRoom(roomCode, userId, {
+            timeControl,
+            rules,
+            assistantEnabled: body.assistant,
+            rated: body.rated,
+            isPublic: body.public,
+            spectators: body.spectators,
+          }),
+          ...bot?.update,
+        },
+      ]);
+
+    if (!error) {
+      if (bot) {
+        const { error: secretError } = await supabase
+          .from("game_secrets")
+          .insert({
+            room_code: roomCode,
+            player_number: 2,
+            secret: bot.secret,
+            salt: bot.salt,
+          });
+
+        if (secretError) {
+          console.error("Error storing bot secret:", secretError);
+          await supabase.from("game_rooms").delete().eq("room_code", roomCode);
+          return errorResponse(
+            `Failed to create game room: ${secretError.message}`,
+            500
+          );
+        }
+      }
+      return NextResponse.json({ success: true, roomCode });
+    }
+
+    // 23505 = unique_violation on room_code
+    if (error.code !== "23505") {
+      console.error("Error creating room:", error);
+      return errorResponse(`Failed to create game room: ${error.message}`, 500);
+    }
+  }
+
+  return errorResponse("Failed to create game room: no free room code", 503);
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { errorResponse, readBody } from "@/lib/roomServer";
+import { verifyWebhookEvent } from "@/lib/webhook";
+import {
+  removeNotificationToken,
+  saveNotificationToken,
+} from "@/lib/notifications";
+
+// POST /api/webhook
+// Body: a JSON Farcaster Signature { header, payload, signature }
+// Farcaster clients call this (the manifest's webhookUrl) when a user adds or
+// removes the mini app or turns its notifications on or off. Keeps
+// notification_tokens in sync so lib/notifications.ts can reach the user.
+export async function POST(request: NextRequest) {
+  const body = await readBody<object>(request);
+  const result = await verifyWebhookEvent(body);
+  if (!result.ok) {
+    return errorResponse(result.message, result.status);
+  }
+
+  const { fid, appKey, event } = result;
+  const supabase = createAdminClient();
+
+  try {
+    switch (event.event) {
+      case "frame_added":
+      case "miniapp_added":
+      case "notifications_enabled":
+        if (event.notificationDetails) {
+          await saveNotificationToken(
+            supabase,
+            fid,
+            appKey,
+            event.notificationDetails
+          );
+        }
+        break;
+      case "frame_removed":
+      case "miniapp_removed":
+      case "notifications_disabled":
+        await removeNotificationToken(supabase, fid, appKey);
+        break;
+    }
+  } catch {
+    // Logged by the helper; a 5xx makes the client retry the event
+    return errorResponse("Failed to update notification token", 500);
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -174,7 +174,7 @@ export default function FriendsPage() {
   const handleInviteToGame = async (friendId: string) => {
     setInvitingFriendId(friendId);
     try {
-      const roomCode = await createGameRoom(user?.fid);
+      const roomCode = await createGameRoom();
       await sendGameInvite(roomCode, friendId, user?.fid);
       toast.success("Game invite sent!");
       // Redirect with 'created' flag to indicate we created this room
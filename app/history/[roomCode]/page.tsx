@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+import { getGameRoom, type GameRoom } from "@/lib/gameRoom";
+import { getPlayerNumber } from "@/lib/gameMachine";
+import { buildReplay, getStartingClock } from "@/lib/history";
+import {
+  describeRules,
+  formatFeedback,
+  formatThinkTime,
+  getRoomRules,
+} from "@/lib/rules";
+import GuessHistory from "@/components/GuessHistory";
+import PlayerClock from "@/components/PlayerClock";
+
+// Step through a finished room turn by turn, with both clocks as they stood
+// after each move
+export default function ReplayPage() {
+  const { roomCode } = useParams<{ roomCode: string }>();
+  const { user } = useAuth();
+  const [room, setRoom] = useState<GameRoom | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [step, setStep] = useState(0); // number of moves shown
+
+  useEffect(() => {
+    getGameRoom(roomCode)
+      .then(setRoom)
+      .finally(() => setLoading(false));
+  }, [roomCode]);
+
+  const moves = useMemo(() => (room ? buildReplay(room) : []), [room]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading replay...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!room || !room.winner) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+        <div className="max-w-2xl mx-auto mt-20">
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8 text-center">
+            <div className="text-6xl mb-4">📜</div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+              {room ? "Game Still in Progress" : "Game Not Found"}
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              {room
+                ? "Replays are available once the game is over."
+                : `No game with room code ${roomCode}.`}
+            </p>
+            <Link
+              href="/history"
+              className="inline-block px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg transition-colors"
+            >
+              Back to History
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const rules = getRoomRules(room);
+  const me = user ? getPlayerNumber(room, user.fid) : null;
+  const shown = moves.slice(0, step);
+  const lastMove = shown[shown.length - 1];
+
+  // Latest recorded snapshot at or before this step
+  const clock =
+    [...shown].reverse().find((move) => move.clock)?.clock ??
+    getStartingClock(room);
+  const nextPlayer = step < moves.length ? moves[step]?.playerNumber : null;
+
+  const playerName = (number: 1 | 2) => {
+    const profile = number === 1 ? room.player1_profile : room.player2_profile;
+    return profile?.display_name || profile?.username || `Player ${number}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mt-8">
+          <div>
+            <h1 className="text-3xl font-bold text-indigo-900 dark:text-indigo-100">
+              Replay
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Room {room.room_code} · {describeRules(rules)}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Link
+              href={`/analysis/${room.room_code}`}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg transition-colors"
+            >
+              Analysis
+            </Link>
+            <Link
+              href="/history"
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg transition-colors"
+            >
+              History
+            </Link>
+          </div>
+        </div>
+
+        {/* Clocks */}
+        <div className="grid grid-cols-2 gap-4">
+          {([1, 2] as const).map((number) => (
+            <PlayerClock
+              key={number}
+              label={playerName(number)}
+              seconds={number === 1 ? clock.player1 : clock.player2}
+              isMe={me === number}
+              isActive={nextPlayer === number}
+            />
+          ))}
+        </div>
+
+        {/* Controls */}
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-4 space-y-3">
+          <p className="text-center text-sm text-gray-700 dark:text-gray-300 min-h-[1.25rem]">
+            {lastMove
+              ? `${playerName(lastMove.playerNumber)} guessed ${
+                  lastMove.guess.number
+                }: ${formatFeedback(lastMove.guess, rules)}`
+              : "Game start"}
+            {lastMove?.guess.thinkTimeMs !== undefined && (
+              <span className="text-gray-500 dark:text-gray-400">
+                {" "}
+                ({formatThinkTime(lastMove.guess.thinkTimeMs)})
+              </span>
+            )}
+          </p>
+          <input
+            type="range"
+            min={0}
+            max={moves.length}
+            value={step}
+            onChange={(e) => setStep(Number(e.target.value))}
+            className="w-full"
+          />
+          <div className="grid grid-cols-4 gap-2">
+            {[
+              { label: "⏮", target: 0 },
+              { label: "◀", target: Math.max(0, step - 1) },
+              { label: "▶", target: Math.min(moves.length, step + 1) },
+              { label: "⏭", target: moves.length },
+            ].map((control) => (
+              <button
+                key={control.label}
+                onClick={() => setStep(control.target)}
+                disabled={control.target === step}
+                className="py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+              >
+                {control.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-center text-xs text-gray-500 dark:text-gray-400">
+            Move {step} of {moves.length}
+          </p>
+        </div>
+
+        {/* Guesses so far */}
+        <div className="grid grid-cols-2 gap-4">
+          {([1, 2] as const).map((number) => (
+            <GuessHistory
+              key={number}
+              title={playerName(number)}
+              guesses={shown
+                .filter((move) => move.playerNumber === number)
+                .map((move) => move.guess)}
+              rules={rules}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  getUserGameHistory,
+  HISTORY_PAGE_SIZE,
+  type GameRoom,
+} from "@/lib/gameRoom";
+import { getPlayerNumber } from "@/lib/gameMachine";
+import { getOutcome } from "@/lib/history";
+import { formatTimeControl, getRoomTimeControl } from "@/lib/rules";
+
+const OUTCOME_STYLES = {
+  won: { label: "Won", className: "text-green-600 dark:text-green-400" },
+  lost: { label: "Lost", className: "text-red-600 dark:text-red-400" },
+  tie: { label: "Tie", className: "text-gray-600 dark:text-gray-400" },
+};
+
+export default function HistoryPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [page, setPage] = useState(0);
+  const [rooms, setRooms] = useState<GameRoom[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push("/");
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    if (!user) return;
+    setLoading(true);
+    getUserGameHistory(user.fid, page)
+      .then(({ rooms, total }) => {
+        setRooms(rooms);
+        setTotal(total);
+      })
+      .catch((error) => console.error("Failed to load history:", error))
+      .finally(() => setLoading(false));
+  }, [user, page]);
+
+  const pageCount = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+
+  if (authLoading || (loading && rooms.length === 0)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading history...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8 mt-8">
+          <h1 className="text-3xl font-bold text-indigo-900 dark:text-indigo-100">
+            Game History
+          </h1>
+          <Link
+            href="/"
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg transition-colors"
+          >
+            Back to Game
+          </Link>
+        </div>
+
+        {rooms.length === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8 text-center">
+            <div className="text-6xl mb-4">📜</div>
+            <p className="text-gray-600 dark:text-gray-400">
+              No finished games yet.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl divide-y divide-gray-200 dark:divide-gray-700">
+            {rooms.map((room) => {
+              const me = (user && getPlayerNumber(room, user.fid)) || 1;
+              const opponent = me === 1 ? room.player2_profile : room.player1_profile;
+              const outcome = OUTCOME_STYLES[getOutcome(room, me)];
+              const myGuesses = me === 1 ? room.player1_guesses : room.player2_guesses;
+              const theirGuesses = me === 1 ? room.player2_guesses : room.player1_guesses;
+              const playedAt = room.finished_at ?? room.created_at;
+
+              return (
+                <Link
+                  key={room.room_code}
+                  href={`/history/${room.room_code}`}
+                  className="flex items-center justify-between p-4 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      vs {opponent?.display_name || opponent?.username || "Unknown"}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {playedAt ? new Date(playedAt).toLocaleString() : "—"}
+                      {" · "}
+                      {formatTimeControl(getRoomTimeControl(room))}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-bold ${outcome.className}`}>{outcome.label}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {myGuesses.length} – {theirGuesses.length} guesses
+                    </p>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-between mt-4">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0 || loading}
+              className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg shadow disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              Page {page + 1} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount - 1 || loading}
+              className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg shadow disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
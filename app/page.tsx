@@ -1,19 +1,40 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useMiniKit } from "@coinbase/onchainkit/minikit";
 import {
   subscribeToRoom,
+  subscribeToSpectatorCount,
   startGame,
-  updateGameStats,
   sendGameInvite,
-  getUserActiveRoom,
+  getUserActiveRooms,
+  getGameRoom,
   handleTimeExpiration,
   getCurrentTimeRemaining,
   leaveGame,
+  getPlayerSecrets,
+  type ActiveRoom,
   type GameRoom,
-  type Guess,
 } from "@/lib/gameRoom";
+import { verifyCommitment } from "@/lib/commitment";
+import { getPlayerNumber, type SpectatorAccess } from "@/lib/gameMachine";
+import {
+  CODE_LENGTHS,
+  DEFAULT_RULES,
+  DEFAULT_TIME_CONTROL,
+  describeRules,
+  formatTimeControl,
+  getDigitPool,
+  getFlaggedPlayer,
+  getRoomRules,
+  getRoomTimeControl,
+  validateGuess,
+  validateSecretNumber,
+  type GameRules,
+  type TimeControl,
+} from "@/lib/rules";
+import { BOT_LEVELS, type BotLevel } from "@/lib/bot";
+import { getRatingCategory, getRatingCategoryLabel } from "@/lib/rating";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   useCreateGameRoom,
@@ -23,10 +44,48 @@ import {
 } from "@/hooks/useGameRoom";
 import { getFriends } from "@/lib/friends";
 import AuthModal from "@/components/AuthModal";
+import GuessHistory from "@/components/GuessHistory";
+import Notepad from "@/components/Notepad";
+import PlayerClock from "@/components/PlayerClock";
+import FindOpponent from "@/components/FindOpponent";
+import Lobby from "@/components/Lobby";
+import GamesDashboard from "@/components/GamesDashboard";
+import PracticeGame from "@/components/PracticeGame";
+import RematchPanel from "@/components/RematchPanel";
+import TimeControlPicker from "@/components/TimeControlPicker";
 import UserMenu from "@/components/UserMenu";
 import toast from "react-hot-toast";
 
-type GamePhase = "menu" | "setup" | "waiting" | "playing" | "gameover";
+type GamePhase =
+  | "menu"
+  | "practice"
+  | "setup"
+  | "waiting"
+  | "playing"
+  | "gameover";
+
+// Phase to show when returning to a room
+const getResumePhase = (room: GameRoom, playerNumber: 1 | 2): GamePhase => {
+  if (room.winner) return "gameover";
+  if (room.game_started) return "playing";
+  const ready = playerNumber === 1 ? room.player1_ready : room.player2_ready;
+  return ready ? "waiting" : "setup";
+};
+
+// Room-level state kept on the client while switching between games
+interface RoomSession {
+  mySecret: string;
+  guessInput: string;
+  crossedNumbers: Set<number>;
+  notes: string;
+}
+
+const EMPTY_SESSION: RoomSession = {
+  mySecret: "",
+  guessInput: "",
+  crossedNumbers: new Set(),
+  notes: "",
+};
 
 export default function Home() {
   const { isFrameReady, setFrameReady } = useMiniKit();
@@ -51,8 +110,10 @@ export default function Home() {
   const [roomCode, setRoomCode] = useState("");
   const [playerNumber, setPlayerNumber] = useState<1 | 2 | null>(null);
   const [gameRoom, setGameRoom] = useState<GameRoom | null>(null);
-  const [mySecret, setMySecret] = useState("");
-  const [guessInput, setGuessInput] = useState("");
+  const [opponentSecret, setOpponentSecret] = useState<string | null>(null);
+  const [fairPlay, setFairPlay] = useState<"verified" | "mismatch" | null>(
+    null
+  );
 
   // UI state
   const [joinCodeInput, setJoinCodeInput] = useState("");
@@ -69,17 +130,56 @@ export default function Home() {
     }>
   >([]);
   const [invitingFriendId, setInvitingFriendId] = useState<string | null>(null);
-
-  // Notepad state
+  const [activeGames, setActiveGames] = useState<ActiveRoom[]>([]);
   const [showNotepad, setShowNotepad] = useState(false);
-  const [crossedNumbers, setCrossedNumbers] = useState<Set<number>>(new Set());
-  const [notes, setNotes] = useState("");
+
+  // Per-room state, keyed by room code so each game keeps its secret, guess
+  // draft and notepad while the user switches between games
+  const [sessions, setSessions] = useState<Record<string, RoomSession>>({});
+  const { mySecret, guessInput, crossedNumbers, notes } =
+    sessions[roomCode] ?? EMPTY_SESSION;
+
+  const updateSession = useCallback(
+    (code: string, update: (session: RoomSession) => Partial<RoomSession>) =>
+      setSessions((prev) => {
+        const session = prev[code] ?? EMPTY_SESSION;
+        return { ...prev, [code]: { ...session, ...update(session) } };
+      }),
+    []
+  );
+
+  const forgetSession = (code: string) =>
+    setSessions((prev) => {
+      const next = { ...prev };
+      delete next[code];
+      return next;
+    });
+
+  const setMySecret = (value: string) =>
+    updateSession(roomCode, () => ({ mySecret: value }));
+  const setGuessInput = (value: string) =>
+    updateSession(roomCode, () => ({ guessInput: value }));
+  const setNotes = (value: string) =>
+    updateSession(roomCode, () => ({ notes: value }));
 
   // Timer state
   const [player1TimeRemaining, setPlayer1TimeRemaining] = useState(300);
   const [player2TimeRemaining, setPlayer2TimeRemaining] = useState(300);
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const [selectedTimeControl, setSelectedTimeControl] = useState(300); // Default 5 minutes
+  const [selectedTimeControl, setSelectedTimeControl] =
+    useState<TimeControl>(DEFAULT_TIME_CONTROL);
+  const [selectedRules, setSelectedRules] = useState<GameRules>(DEFAULT_RULES);
+  const [assistantEnabled, setAssistantEnabled] = useState(true);
+  const [rated, setRated] = useState(false);
+  const [isPublic, setIsPublic] = useState(false);
+  const [spectators, setSpectators] = useState<SpectatorAccess>("everyone");
+  const [spectatorCount, setSpectatorCount] = useState(0);
+
+  // Rules of the current room (defaults until the room has loaded)
+  const rules = gameRoom ? getRoomRules(gameRoom) : DEFAULT_RULES;
+  const timeControl = gameRoom
+    ? getRoomTimeControl(gameRoom)
+    : DEFAULT_TIME_CONTROL;
 
   // Load friends when user is signed in
   useEffect(() => {
@@ -100,7 +200,29 @@ export default function Home() {
     };
   }, [user]);
 
-  // Consolidated initialization: Check URL params, then active room
+  // Show a room the user is already in
+  const openRoom = useCallback(
+    (room: GameRoom, seat: 1 | 2) => {
+      setRoomCode(room.room_code);
+      setPlayerNumber(seat);
+      setGameRoom(room);
+      setOpponentSecret(null);
+      setFairPlay(null);
+      setSecretError("");
+      setGuessError("");
+      setPhase(getResumePhase(room, seat));
+
+      // Secrets aren't part of the room data; fetch our own separately
+      getPlayerSecrets(room.room_code)
+        .then(({ secret }) => {
+          if (secret) updateSession(room.room_code, () => ({ mySecret: secret }));
+        })
+        .catch((error) => console.error("Failed to load secret:", error));
+    },
+    [updateSession]
+  );
+
+  // Consolidated initialization: Check URL params, then active rooms
   useEffect(() => {
     if (!user || phase !== "menu") return;
     if (typeof window === "undefined") return;
@@ -122,76 +244,37 @@ export default function Home() {
           toast.success("Waiting for your friend to accept the invite...");
         }
       } else {
-        // We're joining an existing room (accepted an invite), so we're Player 2
-        handleJoinRoom(roomParam);
+        // Open the room if we're already in it (e.g. from a "your move"
+        // notification), otherwise join it as Player 2 (accepted an invite)
+        getGameRoom(roomParam).then((room) => {
+          if (!isMounted) return;
+          const seat = room && getPlayerNumber(room, user.fid);
+          if (room && seat) {
+            openRoom(room, seat);
+          } else {
+            handleJoinRoom(roomParam);
+          }
+        });
       }
       // Clean up URL
       window.history.replaceState({}, "", "/");
       return; // Skip active room check since URL params take priority
     }
 
-    // Priority 2: Check for active room (page reload/return)
-    getUserActiveRoom(user.fid)
-      .then((activeRoom) => {
+    // Priority 2: List unfinished games on the dashboard
+    getUserActiveRooms(user.fid)
+      .then((rooms) => {
         if (!isMounted) return; // Don't update state if unmounted
-
-        if (activeRoom) {
-          const { room, playerNumber } = activeRoom;
-          console.log(
-            "Found active room:",
-            room.room_code,
-            "as player",
-            playerNumber
-          );
-
-          setRoomCode(room.room_code);
-          setPlayerNumber(playerNumber);
-          setGameRoom(room);
-
-          // Extract and set the player's secret from the room data
-          const playerSecret =
-            playerNumber === 1 ? room.player1_secret : room.player2_secret;
-          if (playerSecret) {
-            setMySecret(playerSecret);
-          }
-
-          // Determine the correct phase based on room state
-          if (room.winner) {
-            setPhase("gameover");
-          } else if (room.game_started) {
-            setPhase("playing");
-          } else if (
-            playerNumber === 1 &&
-            room.player1_ready &&
-            !room.player2_ready
-          ) {
-            setPhase("waiting");
-          } else if (
-            playerNumber === 2 &&
-            room.player2_ready &&
-            !room.player1_ready
-          ) {
-            setPhase("waiting");
-          } else if (playerNumber === 1 && !room.player1_ready) {
-            setPhase("setup");
-          } else if (playerNumber === 2 && !room.player2_ready) {
-            setPhase("setup");
-          } else if (!room.player2_id) {
-            setPhase("waiting");
-            toast.success("Rejoined your active game room");
-          } else {
-            setPhase("waiting");
-          }
-        }
+        setActiveGames(rooms);
       })
       .catch((error) =>
-        console.error("Failed to check for active room:", error)
+        console.error("Failed to check for active rooms:", error)
       );
 
     return () => {
       isMounted = false; // Cleanup flag
     };
-  }, [user, phase]);
+  }, [user, phase, openRoom]);
 
   // Subscribe to room updates
   useEffect(() => {
@@ -225,7 +308,6 @@ export default function Home() {
         setPhase((currentPhase) => {
           // Winner detected - move to gameover
           if (room.winner && currentPhase !== "gameover") {
-            updateGameStats(roomCode).catch(console.error);
             return "gameover";
           }
 
@@ -259,6 +341,64 @@ export default function Home() {
     return () => unsubscribe();
   }, [roomCode, playerNumber]); // Removed 'phase' from dependencies to avoid stale closures
 
+  // Live spectator count for two-player rooms (spectators join through
+  // /watch/<room code>)
+  const isBotRoom = !!gameRoom?.bot_level;
+  useEffect(() => {
+    if (!roomCode || isBotRoom) return;
+    const unsubscribe = subscribeToSpectatorCount(roomCode, setSpectatorCount);
+    return () => {
+      unsubscribe();
+      setSpectatorCount(0);
+    };
+  }, [roomCode, isBotRoom]);
+
+  // Reveal the opponent's secret once the game is over and check both
+  // secrets against the commitments published when the players marked ready
+  const player1Commitment = gameRoom?.player1_commitment;
+  const player2Commitment = gameRoom?.player2_commitment;
+  useEffect(() => {
+    if (phase !== "gameover" || !roomCode || !user || !playerNumber) return;
+
+    let isMounted = true;
+
+    getPlayerSecrets(roomCode)
+      .then(async ({ secret, salt, opponentSecret, opponentSalt }) => {
+        if (!isMounted) return;
+        setOpponentSecret(opponentSecret);
+
+        const myCommitment =
+          playerNumber === 1 ? player1Commitment : player2Commitment;
+        const opponentCommitment =
+          playerNumber === 1 ? player2Commitment : player1Commitment;
+
+        if (
+          !secret ||
+          !salt ||
+          !opponentSecret ||
+          !opponentSalt ||
+          !myCommitment ||
+          !opponentCommitment
+        ) {
+          return;
+        }
+
+        const [myValid, opponentValid] = await Promise.all([
+          verifyCommitment(secret, salt, myCommitment),
+          verifyCommitment(opponentSecret, opponentSalt, opponentCommitment),
+        ]);
+
+        if (isMounted) {
+          setFairPlay(myValid && opponentValid ? "verified" : "mismatch");
+        }
+      })
+      .catch((error) => console.error("Failed to reveal secrets:", error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [phase, roomCode, user, playerNumber, player1Commitment, player2Commitment]);
+
   // Timer management - update timers every second and check for expiration
   useEffect(() => {
     if (!gameRoom || phase !== "playing" || gameRoom.winner) {
@@ -301,22 +441,24 @@ export default function Home() {
       setPlayer1TimeRemaining(p1Time);
       setPlayer2TimeRemaining(p2Time);
 
-      // Check for time expiration (only once)
-      const currentPlayer = playerRef.current;
-      if (currentPlayer && !currentRoom.winner && !timeExpirationTriggered) {
-        if (currentPlayer === 1 && p1Time <= 0) {
-          timeExpirationTriggered = true;
-          handleTimeExpiration(roomCodeRef.current, 1).catch((error) => {
+      // Claim the timeout once the player to move has flagged, so the result
+      // shows up right away. The server checks the clock itself and also ends
+      // flagged games on its own.
+      if (
+        playerRef.current &&
+        getFlaggedPlayer(currentRoom, Date.now()) &&
+        !timeExpirationTriggered
+      ) {
+        timeExpirationTriggered = true;
+        handleTimeExpiration(roomCodeRef.current)
+          .then((claimed) => {
+            // Clocks drift slightly; retry on the next tick if it was early
+            if (!claimed) timeExpirationTriggered = false;
+          })
+          .catch((error) => {
             console.error("Failed to handle time expiration:", error);
-            toast.error("Failed to process time expiration");
+            timeExpirationTriggered = false;
           });
-        } else if (currentPlayer === 2 && p2Time <= 0) {
-          timeExpirationTriggered = true;
-          handleTimeExpiration(roomCodeRef.current, 2).catch((error) => {
-            console.error("Failed to handle time expiration:", error);
-            toast.error("Failed to process time expiration");
-          });
-        }
       }
     };
 
@@ -334,15 +476,6 @@ export default function Home() {
     };
   }, [gameRoom, phase, playerNumber, roomCode]);
 
-  // Validate number: 4 digits, no 0, no repeating digits
-  const validateSecretNumber = (num: string): string | null => {
-    if (num.length !== 4) return "Must be exactly 4 digits";
-    if (!/^\d+$/.test(num)) return "Must contain only digits";
-    if (num.includes("0")) return "Cannot contain 0";
-    if (new Set(num).size !== 4) return "Cannot have repeating digits";
-    return null;
-  };
-
   // Copy room code to clipboard
   const handleCopyRoomCode = async () => {
     try {
@@ -354,45 +487,53 @@ export default function Home() {
     }
   };
 
-  // Calculate feedback for a guess
-  const evaluateGuess = (
-    guess: string,
-    secret: string
-  ): { correctDigits: number; correctPositions: number } => {
-    let correctPositions = 0;
-    let correctDigits = 0;
-
-    for (let i = 0; i < 4; i++) {
-      if (guess[i] === secret[i]) {
-        correctPositions++;
-      }
+  // Handle creating a new room
+  const handleCreateRoom = async () => {
+    if (!user) {
+      toast.error("Please sign in to create a game");
+      setShowAuthModal(true);
+      return;
     }
 
-    for (const digit of guess) {
-      if (secret.includes(digit)) {
-        correctDigits++;
-      }
+    try {
+      const code = await createRoom({
+        timeControl: selectedTimeControl,
+        rules: selectedRules,
+        assistant: assistantEnabled,
+        rated,
+        spectators,
+        public: isPublic,
+      });
+      setRoomCode(code);
+      setPlayerNumber(1);
+      setPhase("setup");
+    } catch (error) {
+      // Error handling is done in the hook
+      console.error("Error creating room:", error);
     }
-
-    return { correctDigits, correctPositions };
   };
 
-  // Handle creating a new room
-  const handleCreateRoom = async () => {
+  // Handle starting a game against the computer
+  const handleCreateBotRoom = async (level: BotLevel) => {
     if (!user) {
-      toast.error("Please sign in to create a game");
+      toast.error("Please sign in to play against the computer");
       setShowAuthModal(true);
       return;
     }
 
     try {
-      const code = await createRoom(user.fid, selectedTimeControl);
+      const code = await createRoom({
+        timeControl: selectedTimeControl,
+        rules: selectedRules,
+        bot: level,
+        assistant: assistantEnabled,
+      });
       setRoomCode(code);
       setPlayerNumber(1);
       setPhase("setup");
     } catch (error) {
       // Error handling is done in the hook
-      console.error("Error creating room:", error);
+      console.error("Error creating bot room:", error);
     }
   };
 
@@ -413,7 +554,7 @@ export default function Home() {
     }
 
     try {
-      const success = await joinRoom(roomCodeToJoin, user.fid);
+      const success = await joinRoom(roomCodeToJoin);
       if (success) {
         // When joining an existing room, you are always Player 2
         setRoomCode(roomCodeToJoin);
@@ -435,20 +576,20 @@ export default function Home() {
   const handleSetSecret = async () => {
     setSecretError("");
 
-    const error = validateSecretNumber(mySecret);
+    const error = validateSecretNumber(mySecret, rules);
     if (error) {
       setSecretError(error);
       toast.error(error);
       return;
     }
 
-    if (!playerNumber || !roomCode) {
+    if (!playerNumber || !roomCode || !user) {
       toast.error("Game session error. Please try again.");
       return;
     }
 
     try {
-      const success = await setRoomSecret(roomCode, playerNumber, mySecret);
+      const success = await setRoomSecret(roomCode, mySecret);
       if (success) {
         setPhase("waiting");
       }
@@ -462,46 +603,20 @@ export default function Home() {
   const handleSubmitGuess = async () => {
     setGuessError("");
 
-    // Validate guess - only check length and digits, allow 0 and repeats
-    if (guessInput.length !== 4) {
-      setGuessError("Must be exactly 4 digits");
-      toast.error("Must be exactly 4 digits");
-      return;
-    }
-    if (!/^\d+$/.test(guessInput)) {
-      setGuessError("Must contain only digits");
-      toast.error("Must contain only digits");
+    const error = validateGuess(guessInput, rules);
+    if (error) {
+      setGuessError(error);
+      toast.error(error);
       return;
     }
 
-    if (!gameRoom || !playerNumber) {
+    if (!gameRoom || !playerNumber || !user) {
       toast.error("Game session error. Please try again.");
       return;
     }
 
-    // Get opponent's secret
-    const opponentSecret =
-      playerNumber === 1 ? gameRoom.player2_secret : gameRoom.player1_secret;
-
-    // Validate opponent has set their secret
-    if (!opponentSecret || opponentSecret.length !== 4) {
-      toast.error("Opponent hasn't set their secret yet. Please wait.");
-      return;
-    }
-
-    const { correctDigits, correctPositions } = evaluateGuess(
-      guessInput,
-      opponentSecret
-    );
-
-    const newGuess: Guess = {
-      number: guessInput,
-      correctDigits,
-      correctPositions,
-    };
-
     try {
-      const success = await submitGameGuess(roomCode, playerNumber, newGuess);
+      const success = await submitGameGuess(roomCode, guessInput, rules);
       if (success) {
         setGuessInput("");
       }
@@ -511,43 +626,60 @@ export default function Home() {
     }
   };
 
-  // Handle new game
-  const handleNewGame = () => {
+  // Back to the dashboard, keeping the room's session for when it's reopened
+  const handleShowGames = () => {
     setPhase("menu");
     setRoomCode("");
     setPlayerNumber(null);
     setGameRoom(null);
-    setMySecret("");
-    setGuessInput("");
-    setJoinCodeInput("");
+    setOpponentSecret(null);
+    setFairPlay(null);
     setSecretError("");
     setGuessError("");
-    // Reset notepad
-    setCrossedNumbers(new Set());
-    setNotes("");
     setShowNotepad(false);
   };
 
+  // Handle new game
+  const handleNewGame = () => {
+    forgetSession(roomCode);
+    setJoinCodeInput("");
+    handleShowGames();
+  };
+
+  // Open a room the server just seated us in (rematch or matchmaking)
+  const openRoomByCode = async (code: string, message: string) => {
+    if (!user) return;
+    const room = await getGameRoom(code);
+    const seat = room && getPlayerNumber(room, user.fid);
+    if (!room || !seat) {
+      toast.error("Could not open the game");
+      return;
+    }
+    openRoom(room, seat);
+    toast.success(
+      `${message} ${seat === 1 ? "You move first." : "Your opponent moves first."}`
+    );
+  };
+
+  // Move both players into an accepted rematch
+  const handleStartRematch = (code: string) => {
+    forgetSession(roomCode);
+    openRoomByCode(code, "Rematch on!");
+  };
+
   // Toggle crossed number
   const toggleCrossedNumber = (num: number) => {
-    setCrossedNumbers((prev) => {
-      const newSet = new Set(prev);
+    updateSession(roomCode, ({ crossedNumbers }) => {
+      const newSet = new Set(crossedNumbers);
       if (newSet.has(num)) {
         newSet.delete(num);
       } else {
         newSet.add(num);
       }
-      return newSet;
+      return { crossedNumbers: newSet };
     });
   };
 
-  // Format time as MM:SS
-  const formatTime = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
-  };
-
   // Handle inviting a friend to a new game
   const handleInviteFriend = async (friendId: string) => {
     if (!user) {
@@ -558,7 +690,13 @@ export default function Home() {
 
     setInvitingFriendId(friendId);
     try {
-      const code = await createRoom(user.fid, selectedTimeControl);
+      const code = await createRoom({
+        timeControl: selectedTimeControl,
+        rules: selectedRules,
+        assistant: assistantEnabled,
+        rated,
+        spectators,
+      });
       await sendGameInvite(code, friendId);
 
       // Transition to waiting state with room info
@@ -586,21 +724,19 @@ export default function Home() {
     if (!confirmLeave) return;
 
     try {
-      const success = await leaveGame(roomCode, user.fid, playerNumber);
-      if (success) {
-        // Reset all game state
-        setRoomCode("");
-        setPlayerNumber(null);
-        setMySecret("");
-        setGameRoom(null);
-        setPhase("menu");
-        toast.success("Left the game");
-      } else {
-        toast.error("Failed to leave game");
-      }
+      await leaveGame(roomCode);
+      // Reset all game state
+      forgetSession(roomCode);
+      setRoomCode("");
+      setPlayerNumber(null);
+      setOpponentSecret(null);
+      setFairPlay(null);
+      setGameRoom(null);
+      setPhase("menu");
+      toast.success("Left the game");
     } catch (error) {
       console.error("Error leaving game:", error);
-      toast.error("Failed to leave game");
+      toast.error(error instanceof Error ? error.message : "Failed to leave game");
     }
   };
 
@@ -660,27 +796,101 @@ export default function Home() {
         {/* Menu Phase */}
         {phase === "menu" && (
           <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6 space-y-6">
+            <GamesDashboard
+              games={activeGames}
+              onOpen={({ room, playerNumber }) => openRoom(room, playerNumber)}
+            />
+
             <p className="text-sm text-gray-600 dark:text-gray-300 text-center">
               Play with a friend on separate devices!
             </p>
 
             {/* Time Control Selector */}
+            <TimeControlPicker
+              value={selectedTimeControl}
+              onChange={setSelectedTimeControl}
+            />
+
+            {/* Rules Selector */}
             <div className="space-y-2">
               <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                Time Control
+                Rules
               </label>
               <div className="grid grid-cols-4 gap-2">
+                {CODE_LENGTHS.map((length) => (
+                  <button
+                    key={length}
+                    onClick={() =>
+                      setSelectedRules((prev) => ({ ...prev, codeLength: length }))
+                    }
+                    className={`py-2 px-3 rounded-lg font-medium text-sm transition-colors ${
+                      selectedRules.codeLength === length
+                        ? "bg-indigo-600 text-white"
+                        : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                    }`}
+                  >
+                    {length} digits
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
                 {[
-                  { label: "1 min", value: 60 },
-                  { label: "3 min", value: 180 },
-                  { label: "5 min", value: 300 },
-                  { label: "10 min", value: 600 },
+                  { label: "Zeros allowed", key: "allowZero" as const },
+                  { label: "Repeats allowed", key: "allowRepeats" as const },
+                ].map((option) => (
+                  <button
+                    key={option.key}
+                    onClick={() =>
+                      setSelectedRules((prev) => ({
+                        ...prev,
+                        [option.key]: !prev[option.key],
+                      }))
+                    }
+                    className={`py-2 px-3 rounded-lg font-medium text-sm transition-colors ${
+                      selectedRules[option.key]
+                        ? "bg-indigo-600 text-white"
+                        : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { label: "Digits & positions", value: "guess4" as const },
+                  { label: "Bulls & cows", value: "bulls_cows" as const },
                 ].map((option) => (
                   <button
                     key={option.value}
-                    onClick={() => setSelectedTimeControl(option.value)}
+                    onClick={() =>
+                      setSelectedRules((prev) => ({ ...prev, feedback: option.value }))
+                    }
+                    className={`py-2 px-3 rounded-lg font-medium text-sm transition-colors ${
+                      selectedRules.feedback === option.value
+                        ? "bg-indigo-600 text-white"
+                        : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { label: "Casual", value: false },
+                  {
+                    label: `Rated (${getRatingCategoryLabel(
+                      getRatingCategory(selectedTimeControl)
+                    )})`,
+                    value: true,
+                  },
+                ].map((option) => (
+                  <button
+                    key={option.label}
+                    onClick={() => setRated(option.value)}
                     className={`py-2 px-3 rounded-lg font-medium text-sm transition-colors ${
-                      selectedTimeControl === option.value
+                      rated === option.value
                         ? "bg-indigo-600 text-white"
                         : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
                     }`}
@@ -689,6 +899,42 @@ export default function Home() {
                   </button>
                 ))}
               </div>
+              <button
+                onClick={() => setAssistantEnabled(!assistantEnabled)}
+                disabled={rated}
+                className={`w-full py-2 px-3 rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  assistantEnabled && !rated
+                    ? "bg-indigo-600 text-white"
+                    : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                }`}
+                title={rated ? "Rated games are played without the assistant" : undefined}
+              >
+                Candidates assistant {assistantEnabled && !rated ? "on" : "off"}
+              </button>
+              <button
+                onClick={() => setIsPublic(!isPublic)}
+                className={`w-full py-2 px-3 rounded-lg font-medium text-sm transition-colors ${
+                  isPublic
+                    ? "bg-indigo-600 text-white"
+                    : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                }`}
+                title="Public games are listed in the lobby until someone joins"
+              >
+                {isPublic ? "Public: listed in the lobby" : "Private: join by code"}
+              </button>
+              <button
+                onClick={() =>
+                  setSpectators(spectators === "everyone" ? "friends" : "everyone")
+                }
+                className={`w-full py-2 px-3 rounded-lg font-medium text-sm transition-colors ${
+                  spectators === "everyone"
+                    ? "bg-indigo-600 text-white"
+                    : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                }`}
+                title="Who can follow the game live at /watch/<room code>"
+              >
+                Spectators: {spectators === "everyone" ? "anyone" : "friends only"}
+              </button>
             </div>
 
             <button
@@ -721,6 +967,20 @@ export default function Home() {
               {isCreatingRoom ? "Creating..." : "Create New Game"}
             </button>
 
+            {user && (
+              <FindOpponent
+                userId={user.fid}
+                timeControl={selectedTimeControl}
+                rules={selectedRules}
+                rated={rated}
+                onMatched={(code) => openRoomByCode(code, "Opponent found!")}
+              />
+            )}
+
+            {user && (
+              <Lobby userId={user.fid} onJoin={(code) => handleJoinRoom(code)} />
+            )}
+
             {user && friends.length > 0 && (
               <button
                 onClick={() => setShowFriendInvite(true)}
@@ -743,6 +1003,33 @@ export default function Home() {
               </button>
             )}
 
+            {/* Play vs Computer */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Play vs Computer
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                {BOT_LEVELS.map((option) => (
+                  <button
+                    key={option.level}
+                    onClick={() => handleCreateBotRoom(option.level)}
+                    disabled={isCreatingRoom}
+                    title={option.description}
+                    className="py-2 px-3 rounded-lg font-medium text-sm transition-colors bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <button
+              onClick={() => setPhase("practice")}
+              className="w-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 font-bold py-4 px-6 rounded-lg text-lg transition-colors"
+            >
+              Practice Solo
+            </button>
+
             <div className="relative">
               <div className="absolute inset-0 flex items-center">
                 <div className="w-full border-t border-gray-300 dark:border-gray-600"></div>
@@ -799,6 +1086,15 @@ export default function Home() {
           </div>
         )}
 
+        {/* Practice Phase (offline, no room) */}
+        {phase === "practice" && (
+          <PracticeGame
+            rules={selectedRules}
+            timeControl={selectedTimeControl}
+            onExit={() => setPhase("menu")}
+          />
+        )}
+
         {/* Setup Phase */}
         {phase === "setup" && (
           <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6 space-y-6">
@@ -857,9 +1153,10 @@ export default function Home() {
               Playing as:{" "}
               <span className="font-semibold">{getMyDisplayName()}</span>
               <br />
-              Choose your 4-digit secret number
+              Choose your {rules.codeLength}-digit secret number
               <br />
-              (1-9, no repeating digits, no 0)
+              ({describeRules(rules)}, {formatTimeControl(timeControl)}
+              {gameRoom?.rated ? ", rated" : ""})
             </p>
 
             <div className="space-y-3">
@@ -867,7 +1164,7 @@ export default function Home() {
                 type="password"
                 inputMode="numeric"
                 pattern="[0-9]*"
-                maxLength={4}
+                maxLength={rules.codeLength}
                 value={mySecret}
                 onChange={(e) => setMySecret(e.target.value)}
                 onKeyPress={(e) => e.key === "Enter" && handleSetSecret()}
@@ -908,6 +1205,12 @@ export default function Home() {
                 )}
                 {isSettingSecret ? "Setting..." : "Set Secret Number"}
               </button>
+              <button
+                onClick={handleShowGames}
+                className="w-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 font-medium py-3 px-6 rounded-lg transition-colors"
+              >
+                Back to My Games
+              </button>
               <button
                 onClick={handleLeaveGame}
                 className="w-full bg-red-600 hover:bg-red-700 text-white font-medium py-3 px-6 rounded-lg transition-colors"
@@ -989,6 +1292,12 @@ export default function Home() {
               </p>
             </div>
 
+            <button
+              onClick={handleShowGames}
+              className="w-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 font-medium py-3 px-6 rounded-lg transition-colors"
+            >
+              Back to My Games
+            </button>
             <button
               onClick={handleLeaveGame}
               className="w-full bg-red-600 hover:bg-red-700 text-white font-medium py-3 px-6 rounded-lg transition-colors"
@@ -1013,6 +1322,11 @@ export default function Home() {
                   <p className="text-sm text-gray-600 dark:text-gray-300">
                     Your secret: {mySecret}
                   </p>
+                  {!gameRoom.bot_level && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      👁 {spectatorCount} watching
+                    </p>
+                  )}
                 </div>
                 <div className="flex items-center gap-3">
                   <button
@@ -1047,73 +1361,26 @@ export default function Home() {
 
               {/* Timer Display */}
               <div className="grid grid-cols-2 gap-4 mb-4">
-                {/* Player 1 Timer */}
-                <div
-                  className={`rounded-lg p-3 ${
-                    playerNumber === 1
-                      ? "bg-indigo-100 dark:bg-indigo-900/30 ring-2 ring-indigo-500"
-                      : "bg-gray-100 dark:bg-gray-700"
-                  }`}
-                >
-                  <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
-                    {gameRoom.player1_profile?.display_name ||
-                      gameRoom.player1_profile?.username ||
-                      "Player 1"}
-                  </div>
-                  <div
-                    className={`text-2xl font-mono font-bold ${
-                      player1TimeRemaining <= 30
-                        ? "text-red-600 dark:text-red-400"
-                        : player1TimeRemaining <= 60
-                        ? "text-yellow-600 dark:text-yellow-400"
-                        : "text-gray-900 dark:text-white"
-                    }`}
-                  >
-                    {formatTime(player1TimeRemaining)}
-                  </div>
-                  {gameRoom.current_turn_player === 1 && (
-                    <div className="flex items-center gap-1 mt-1">
-                      <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                      <span className="text-xs text-gray-600 dark:text-gray-400">
-                        Active
-                      </span>
-                    </div>
-                  )}
-                </div>
-
-                {/* Player 2 Timer */}
-                <div
-                  className={`rounded-lg p-3 ${
-                    playerNumber === 2
-                      ? "bg-indigo-100 dark:bg-indigo-900/30 ring-2 ring-indigo-500"
-                      : "bg-gray-100 dark:bg-gray-700"
-                  }`}
-                >
-                  <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
-                    {gameRoom.player2_profile?.display_name ||
-                      gameRoom.player2_profile?.username ||
-                      "Player 2"}
-                  </div>
-                  <div
-                    className={`text-2xl font-mono font-bold ${
-                      player2TimeRemaining <= 30
-                        ? "text-red-600 dark:text-red-400"
-                        : player2TimeRemaining <= 60
-                        ? "text-yellow-600 dark:text-yellow-400"
-                        : "text-gray-900 dark:text-white"
-                    }`}
-                  >
-                    {formatTime(player2TimeRemaining)}
-                  </div>
-                  {gameRoom.current_turn_player === 2 && (
-                    <div className="flex items-center gap-1 mt-1">
-                      <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                      <span className="text-xs text-gray-600 dark:text-gray-400">
-                        Active
-                      </span>
-                    </div>
-                  )}
-                </div>
+                <PlayerClock
+                  label={
+                    gameRoom.player1_profile?.display_name ||
+                    gameRoom.player1_profile?.username ||
+                    "Player 1"
+                  }
+                  seconds={player1TimeRemaining}
+                  isMe={playerNumber === 1}
+                  isActive={gameRoom.current_turn_player === 1}
+                />
+                <PlayerClock
+                  label={
+                    gameRoom.player2_profile?.display_name ||
+                    gameRoom.player2_profile?.username ||
+                    "Player 2"
+                  }
+                  seconds={player2TimeRemaining}
+                  isMe={playerNumber === 2}
+                  isActive={gameRoom.current_turn_player === 2}
+                />
               </div>
 
               {isMyTurn ? (
@@ -1122,7 +1389,7 @@ export default function Home() {
                     type="tel"
                     inputMode="numeric"
                     pattern="[0-9]*"
-                    maxLength={4}
+                    maxLength={rules.codeLength}
                     value={guessInput}
                     onChange={(e) => setGuessInput(e.target.value)}
                     onKeyPress={(e) => e.key === "Enter" && handleSubmitGuess()}
@@ -1175,59 +1442,26 @@ export default function Home() {
 
             {/* Guess history */}
             <div className="grid grid-cols-2 gap-4">
-              {/* My guesses */}
-              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4">
-                <h3 className="font-bold text-center text-gray-800 dark:text-gray-200 mb-3 text-sm">
-                  {getMyDisplayName()}
-                </h3>
-                <div className="space-y-2 max-h-64 overflow-y-auto">
-                  {myGuesses?.map((guess, idx) => (
-                    <div
-                      key={idx}
-                      className="bg-gray-50 dark:bg-gray-700 rounded-lg p-2 text-xs"
-                    >
-                      <div className="font-mono text-center text-lg font-bold text-gray-900 dark:text-white tracking-wider">
-                        {guess.number}
-                      </div>
-                      <div className="text-center text-gray-600 dark:text-gray-300 mt-1">
-                        {guess.correctDigits} digit
-                        {guess.correctDigits !== 1 ? "s" : ""},{" "}
-                        {guess.correctPositions} position
-                        {guess.correctPositions !== 1 ? "s" : ""}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-
-              {/* Opponent's guesses */}
-              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4">
-                <h3 className="font-bold text-center text-gray-800 dark:text-gray-200 mb-3 text-sm">
-                  {getOpponentDisplayName()}
-                </h3>
-                <div className="space-y-2 max-h-64 overflow-y-auto">
-                  {opponentGuesses?.map((guess, idx) => (
-                    <div
-                      key={idx}
-                      className="bg-gray-50 dark:bg-gray-700 rounded-lg p-2 text-xs"
-                    >
-                      <div className="font-mono text-center text-lg font-bold text-gray-900 dark:text-white tracking-wider">
-                        {guess.number}
-                      </div>
-                      <div className="text-center text-gray-600 dark:text-gray-300 mt-1">
-                        {guess.correctDigits} digit
-                        {guess.correctDigits !== 1 ? "s" : ""},{" "}
-                        {guess.correctPositions} position
-                        {guess.correctPositions !== 1 ? "s" : ""}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
+              <GuessHistory
+                title={getMyDisplayName()}
+                guesses={myGuesses}
+                rules={rules}
+              />
+              <GuessHistory
+                title={getOpponentDisplayName()}
+                guesses={opponentGuesses}
+                rules={rules}
+              />
             </div>
 
             {/* Leave Game button */}
-            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-4 space-y-3">
+              <button
+                onClick={handleShowGames}
+                className="w-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 font-medium py-3 px-6 rounded-lg transition-colors"
+              >
+                Back to My Games
+              </button>
               <button
                 onClick={handleLeaveGame}
                 className="w-full bg-red-600 hover:bg-red-700 text-white font-medium py-3 px-6 rounded-lg transition-colors"
@@ -1239,79 +1473,20 @@ export default function Home() {
         )}
 
         {/* Notepad Modal */}
-        {showNotepad && phase === "playing" && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
-              <div className="flex items-center justify-between">
-                <h3 className="text-xl font-bold text-gray-900 dark:text-white">
-                  Game Notes
-                </h3>
-                <button
-                  onClick={() => setShowNotepad(false)}
-                  className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
-                >
-                  <svg
-                    className="w-6 h-6"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M6 18L18 6M6 6l12 12"
-                    />
-                  </svg>
-                </button>
-              </div>
-
-              {/* Number grid for crossing out */}
-              <div>
-                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Cross out numbers:
-                </h4>
-                <div className="grid grid-cols-5 gap-2">
-                  {[0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map((num) => (
-                    <button
-                      key={num}
-                      onClick={() => toggleCrossedNumber(num)}
-                      className={`aspect-square rounded-lg font-bold text-lg transition-all ${
-                        crossedNumbers.has(num)
-                          ? "bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 line-through"
-                          : "bg-indigo-100 dark:bg-indigo-900/30 text-indigo-900 dark:text-indigo-100 hover:bg-indigo-200 dark:hover:bg-indigo-900/50"
-                      }`}
-                    >
-                      {num}
-                    </button>
-                  ))}
-                </div>
-              </div>
-
-              {/* Notes textarea */}
-              <div>
-                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Your notes:
-                </h4>
-                <textarea
-                  value={notes}
-                  onChange={(e) => setNotes(e.target.value)}
-                  placeholder="Write your strategy, observations, or hints here..."
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white resize-none"
-                  rows={4}
-                />
-              </div>
-
-              {/* Close button */}
-              <button
-                onClick={() => setShowNotepad(false)}
-                className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-medium py-2 rounded-lg transition-colors"
-              >
-                Close
-              </button>
-            </div>
-          </div>
-        )}
+        <Notepad
+          isOpen={showNotepad && phase === "playing"}
+          onClose={() => setShowNotepad(false)}
+          digits={getDigitPool(rules)}
+          crossedNumbers={crossedNumbers}
+          onToggleNumber={toggleCrossedNumber}
+          notes={notes}
+          onNotesChange={setNotes}
+          assistant={
+            gameRoom?.assistant_enabled !== false && myGuesses
+              ? { rules, guesses: myGuesses }
+              : null
+          }
+        />
 
         {/* Game Over Phase */}
         {phase === "gameover" && gameRoom && (
@@ -1385,6 +1560,49 @@ export default function Home() {
                 </>
               )}
             </p>
+            {opponentSecret && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-3">
+                  <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+                    Your number
+                  </div>
+                  <div className="text-2xl font-mono font-bold text-gray-900 dark:text-white tracking-wider">
+                    {mySecret}
+                  </div>
+                </div>
+                <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-3">
+                  <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+                    {getOpponentDisplayName()}&apos;s number
+                  </div>
+                  <div className="text-2xl font-mono font-bold text-gray-900 dark:text-white tracking-wider">
+                    {opponentSecret}
+                  </div>
+                </div>
+              </div>
+            )}
+            {fairPlay === "verified" && (
+              <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 text-sm font-medium">
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+                  />
+                </svg>
+                Verified fair
+              </div>
+            )}
+            {fairPlay === "mismatch" && (
+              <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 text-sm font-medium">
+                Secret does not match its commitment
+              </div>
+            )}
             {user && (
               <div className="bg-indigo-50 dark:bg-indigo-900/20 rounded-lg p-4 text-sm">
                 <p className="text-indigo-900 dark:text-indigo-100">
@@ -1393,6 +1611,15 @@ export default function Home() {
               </div>
             )}
 
+            {user && !gameRoom.bot_level && gameRoom.player2_id && (
+              <RematchPanel
+                room={gameRoom}
+                userId={user.fid}
+                opponentName={getOpponentDisplayName()}
+                onStart={handleStartRematch}
+              />
+            )}
+
             <div className="flex gap-3">
               <button
                 onClick={handleNewGame}
@@ -1409,6 +1636,12 @@ export default function Home() {
                 </a>
               )}
             </div>
+            <a
+              href={`/analysis/${gameRoom.room_code}`}
+              className="block w-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 font-medium py-3 px-6 rounded-lg transition-colors"
+            >
+              Review Game
+            </a>
           </div>
         )}
 
@@ -3,25 +3,88 @@
 import { useEffect, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useUserStats, useLeaderboard } from "@/hooks/useUserStats";
+import { getPracticeStats, type PracticeStats } from "@/lib/practice";
+import {
+  getUserBotStats,
+  getUserRatings,
+  type BotStats,
+  type LeaderboardOrder,
+  type PlayerRating,
+} from "@/lib/auth";
+import { BOT_LEVELS } from "@/lib/bot";
+import {
+  formatRating,
+  RATING_CATEGORIES,
+  type RatingCategory,
+} from "@/lib/rating";
+import {
+  getGameHistory,
+  getGuessTrend,
+  getRatingSeries,
+  getRollingWinRate,
+  inRange,
+  PROGRESS_RANGES,
+  ROLLING_WINDOW,
+  type GameHistoryEntry,
+  type ProgressRange,
+} from "@/lib/progress";
+import ProgressChart from "@/components/ProgressChart";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 
 export default function StatsPage() {
   const { user, profile, loading: authLoading } = useAuth();
   const router = useRouter();
-  const [leaderboardType, setLeaderboardType] = useState<
-    "games_won" | "win_rate" | "longest_streak"
-  >("games_won");
+  const [leaderboardType, setLeaderboardType] =
+    useState<LeaderboardOrder>("games_won");
+  const [ratingCategory, setRatingCategory] = useState<RatingCategory>("blitz");
 
   // Use custom hooks
   const { stats, loading: statsLoading } = useUserStats(user?.fid);
   const { leaderboard, loading: leaderboardLoading } = useLeaderboard(
     leaderboardType,
-    10
+    10,
+    ratingCategory
   );
 
   const loading = statsLoading || leaderboardLoading;
 
+  // Practice stats live in localStorage, so read them after mount
+  const [practiceStats, setPracticeStats] = useState<PracticeStats | null>(null);
+  useEffect(() => {
+    setPracticeStats(getPracticeStats());
+  }, []);
+
+  // Games against the computer are recorded separately from user_stats
+  const [botStats, setBotStats] = useState<BotStats[]>([]);
+  useEffect(() => {
+    if (!user) return;
+    getUserBotStats(user.fid)
+      .then(setBotStats)
+      .catch((error) => console.error("Failed to load bot stats:", error));
+  }, [user]);
+
+  const [ratings, setRatings] = useState<PlayerRating[]>([]);
+  useEffect(() => {
+    if (!user) return;
+    getUserRatings(user.fid)
+      .then(setRatings)
+      .catch((error) => console.error("Failed to load ratings:", error));
+  }, [user]);
+
+  // Per-game history for the progress charts
+  const [history, setHistory] = useState<GameHistoryEntry[]>([]);
+  const [progressRange, setProgressRange] = useState<ProgressRange>("30d");
+  const [chartCategory, setChartCategory] = useState<RatingCategory | null>(
+    null
+  );
+  useEffect(() => {
+    if (!user) return;
+    getGameHistory(user.fid)
+      .then(setHistory)
+      .catch((error) => console.error("Failed to load game history:", error));
+  }, [user]);
+
   useEffect(() => {
     if (!authLoading && !user) {
       router.push("/");
@@ -68,10 +131,20 @@ export default function StatsPage() {
       ? ((stats.games_won / stats.total_games) * 100).toFixed(1)
       : "0.0";
   const avgGuesses =
-    stats.total_games > 0
-      ? (stats.total_guesses / stats.total_games).toFixed(1)
+    stats.classic_games > 0
+      ? (stats.total_guesses / stats.classic_games).toFixed(1)
       : "0.0";
 
+  // Rating chart defaults to the category of the latest rated game
+  const ratedCategories = RATING_CATEGORIES.filter(({ category }) =>
+    history.some((e) => e.rated && e.category === category)
+  );
+  const shownCategory =
+    chartCategory ??
+    [...history].reverse().find((e) => e.rated)?.category ??
+    null;
+  const now = Date.now();
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
       <div className="max-w-6xl mx-auto">
@@ -203,21 +276,214 @@ export default function StatsPage() {
           </div>
         </div>
 
+        {/* Progress over time */}
+        {history.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6 mb-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                Progress
+              </h2>
+              <div className="flex gap-1">
+                {PROGRESS_RANGES.map(({ range, label }) => (
+                  <button
+                    key={range}
+                    onClick={() => setProgressRange(range)}
+                    className={`py-1 px-3 rounded-lg font-medium text-sm transition-colors ${
+                      progressRange === range
+                        ? "bg-indigo-600 text-white"
+                        : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {shownCategory && (
+                <div className="space-y-2">
+                  <ProgressChart
+                    title="Rating"
+                    points={inRange(
+                      getRatingSeries(history, shownCategory),
+                      progressRange,
+                      now
+                    )}
+                    formatValue={(value) => String(Math.round(value))}
+                  />
+                  {ratedCategories.length > 1 && (
+                    <select
+                      value={shownCategory}
+                      onChange={(e) =>
+                        setChartCategory(e.target.value as RatingCategory)
+                      }
+                      className="w-full px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white"
+                    >
+                      {ratedCategories.map(({ category, label }) => (
+                        <option key={category} value={category}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
+              <ProgressChart
+                title={`Win rate (last ${ROLLING_WINDOW} games)`}
+                points={inRange(getRollingWinRate(history), progressRange, now)}
+                formatValue={(value) => `${Math.round(value)}%`}
+                colorClass="text-green-600 dark:text-green-400"
+              />
+              <ProgressChart
+                title={`Avg guesses (last ${ROLLING_WINDOW} games)`}
+                points={inRange(getGuessTrend(history), progressRange, now)}
+                formatValue={(value) => value.toFixed(1)}
+                colorClass="text-orange-600 dark:text-orange-400"
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Ratings from rated games, per time-control category */}
+        {ratings.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+              Ratings
+            </h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              {RATING_CATEGORIES.map(({ category, label }) => {
+                const row = ratings.find((r) => r.category === category);
+                return (
+                  <div key={category}>
+                    <div className="text-2xl font-bold text-indigo-600 dark:text-indigo-400">
+                      {row ? formatRating(row.rating, row.deviation) : "—"}
+                    </div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      {label}
+                      {row &&
+                        ` · ${row.games_played} game${
+                          row.games_played !== 1 ? "s" : ""
+                        }`}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* vs Computer (not part of the leaderboard) */}
+        {botStats.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+              vs Computer
+            </h2>
+            <div className="space-y-3">
+              {BOT_LEVELS.map(({ level, label }) => {
+                const row = botStats.find((s) => s.bot_level === level);
+                if (!row) return null;
+                return (
+                  <div
+                    key={level}
+                    className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-gray-700"
+                  >
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {label}
+                    </span>
+                    <span className="text-sm text-gray-600 dark:text-gray-300">
+                      {row.games_won}W / {row.games_lost}L / {row.games_tied}T
+                      {row.best_guess_count
+                        ? ` · best ${row.best_guess_count} guesses`
+                        : ""}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Practice (local, not part of the leaderboard) */}
+        {practiceStats && practiceStats.total_games > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+              Practice
+            </h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold text-indigo-600 dark:text-indigo-400">
+                  {practiceStats.total_games}
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Games
+                </div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+                  {practiceStats.games_won}
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Solved
+                </div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {practiceStats.best_guess_count ?? "N/A"}
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Best
+                </div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {practiceStats.classic_games > 0
+                    ? (
+                        practiceStats.total_guesses / practiceStats.classic_games
+                      ).toFixed(1)
+                    : "0.0"}
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Avg Guesses
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Leaderboard */}
         <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
               Leaderboard
             </h2>
-            <select
-              value={leaderboardType}
-              onChange={(e) => setLeaderboardType(e.target.value as "games_won" | "win_rate" | "longest_streak")}
-              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white"
-            >
-              <option value="games_won">Most Wins</option>
-              <option value="win_rate">Best Win Rate</option>
-              <option value="longest_streak">Longest Streak</option>
-            </select>
+            <div className="flex gap-2">
+              {leaderboardType === "rating" && (
+                <select
+                  value={ratingCategory}
+                  onChange={(e) =>
+                    setRatingCategory(e.target.value as RatingCategory)
+                  }
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white"
+                >
+                  {RATING_CATEGORIES.map(({ category, label }) => (
+                    <option key={category} value={category}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <select
+                value={leaderboardType}
+                onChange={(e) => setLeaderboardType(e.target.value as LeaderboardOrder)}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white"
+              >
+                <option value="games_won">Most Wins</option>
+                <option value="win_rate">Best Win Rate</option>
+                <option value="longest_streak">Longest Streak</option>
+                <option value="rating">Rating</option>
+              </select>
+            </div>
           </div>
 
           <div className="space-y-3">
@@ -268,6 +534,9 @@ export default function StatsPage() {
                     {leaderboardType === "win_rate" && `${entry.win_rate}%`}
                     {leaderboardType === "longest_streak" &&
                       entry.longest_streak}
+                    {leaderboardType === "rating" &&
+                      entry.rating !== null &&
+                      formatRating(entry.rating, entry.rating_deviation ?? 0)}
                   </div>
                   <div className="text-xs text-gray-500 dark:text-gray-400">
                     {entry.total_games} games
@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  getCurrentTimeRemaining,
+  RoomApiError,
+  subscribeToSpectatorCount,
+  subscribeToSpectatorView,
+  type SpectatorView,
+} from "@/lib/gameRoom";
+import { getRoomPhase } from "@/lib/gameMachine";
+import {
+  describeRules,
+  formatTimeControl,
+  getRoomRules,
+  getRoomTimeControl,
+} from "@/lib/rules";
+import GuessHistory from "@/components/GuessHistory";
+import PlayerClock from "@/components/PlayerClock";
+
+// Follow a game live as a spectator: both guess lists, both clocks and the
+// result. Secrets only arrive from the server once the game is over.
+export default function WatchPage() {
+  const { roomCode } = useParams<{ roomCode: string }>();
+  const { user } = useAuth();
+  const [view, setView] = useState<SpectatorView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [spectatorCount, setSpectatorCount] = useState(0);
+  const [, setTick] = useState(0);
+  // Presence key for signed-out viewers
+  const [guestKey] = useState(
+    () => `guest-${Math.random().toString(36).slice(2, 10)}`
+  );
+  const viewerKey = user?.fid ?? guestKey;
+
+  useEffect(() => {
+    return subscribeToSpectatorView(
+      roomCode,
+      (next) => {
+        setView(next);
+        setError(null);
+      },
+      (err) =>
+        setError(
+          err instanceof RoomApiError ? err.message : "Failed to load the game"
+        )
+    );
+  }, [roomCode]);
+
+  useEffect(
+    () => subscribeToSpectatorCount(roomCode, setSpectatorCount, viewerKey),
+    [roomCode, viewerKey]
+  );
+
+  // Keep the running clock moving between updates
+  const running = !!view && getRoomPhase(view.room) === "playing";
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setTick((t) => t + 1), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  if (!view) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+        <div className="max-w-2xl mx-auto mt-20">
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8 text-center">
+            {error ? (
+              <>
+                <div className="text-6xl mb-4">👀</div>
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+                  Can&apos;t Watch This Game
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400 mb-6">{error}</p>
+                <Link
+                  href="/"
+                  className="inline-block px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg transition-colors"
+                >
+                  Back to Game
+                </Link>
+              </>
+            ) : (
+              <>
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+                <p className="text-gray-600 dark:text-gray-400">Loading game...</p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { room, secrets } = view;
+  const rules = getRoomRules(room);
+  const phase = getRoomPhase(room);
+
+  const playerName = (number: 1 | 2) => {
+    const profile = number === 1 ? room.player1_profile : room.player2_profile;
+    return profile?.display_name || profile?.username || `Player ${number}`;
+  };
+
+  const status =
+    phase === "waiting_for_opponent"
+      ? "Waiting for an opponent"
+      : phase === "setup" || phase === "ready"
+      ? "Players are choosing their secrets"
+      : phase === "playing"
+      ? `${playerName(room.current_turn)} to move`
+      : room.winner === "tie"
+      ? "It's a tie!"
+      : `${playerName(Number(room.winner) as 1 | 2)} wins!`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mt-8">
+          <div>
+            <h1 className="text-3xl font-bold text-indigo-900 dark:text-indigo-100">
+              {playerName(1)} vs {playerName(2)}
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Room {room.room_code} · {describeRules(rules)} ·{" "}
+              {formatTimeControl(getRoomTimeControl(room))}
+              {room.rated ? " · rated" : ""}
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg transition-colors"
+          >
+            Play
+          </Link>
+        </div>
+
+        {/* Status */}
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-4 flex items-center justify-between">
+          <p className="font-medium text-gray-900 dark:text-white">{status}</p>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            👁 {spectatorCount} watching
+          </span>
+        </div>
+
+        {/* Clocks */}
+        <div className="grid grid-cols-2 gap-4">
+          {([1, 2] as const).map((number) => (
+            <PlayerClock
+              key={number}
+              label={playerName(number)}
+              seconds={getCurrentTimeRemaining(room, number)}
+              isMe={false}
+              isActive={phase === "playing" && room.current_turn_player === number}
+            />
+          ))}
+        </div>
+
+        {/* Secrets, revealed by the server once the game is over */}
+        {secrets && (
+          <div className="grid grid-cols-2 gap-4">
+            {([1, 2] as const).map((number) => (
+              <div
+                key={number}
+                className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4 text-center"
+              >
+                <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+                  {playerName(number)}&apos;s secret
+                </div>
+                <div className="text-2xl font-mono font-bold text-gray-900 dark:text-white">
+                  {(number === 1 ? secrets.player1 : secrets.player2) ?? "—"}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Guess histories */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <GuessHistory
+            title={`${playerName(1)}'s guesses`}
+            guesses={room.player1_guesses}
+            rules={rules}
+          />
+          <GuessHistory
+            title={`${playerName(2)}'s guesses`}
+            guesses={room.player2_guesses}
+            rules={rules}
+          />
+        </div>
+
+        {phase === "finished" && (
+          <div className="text-center">
+            <Link
+              href={`/history/${room.room_code}`}
+              className="inline-block px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg transition-colors"
+            >
+              Watch the Replay
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { getDigitPool, type GameRules, type Guess } from "@/lib/rules";
+import type {
+  CandidatesRequest,
+  CandidatesResponse,
+} from "@/lib/candidates.worker";
+
+interface CandidatesPanelProps {
+  rules: GameRules;
+  guesses: Guess[]; // the player's own guesses with feedback
+}
+
+const PAGE_SIZE = 40;
+
+// Solver-backed view of every secret still consistent with the player's
+// feedback so far: how many are left, which digits and positions they agree
+// on, and a paged list to browse them. The solver runs in a Web Worker
+// (lib/candidates.worker.ts); the last answer stays up while the next one is
+// computed.
+export default function CandidatesPanel({ rules, guesses }: CandidatesPanelProps) {
+  const [page, setPage] = useState(0);
+  const [result, setResult] = useState<CandidatesResponse | null>(null);
+  const [pending, setPending] = useState(true);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+
+  // Room updates hand over new objects for the same rules and guesses, so
+  // the worker is only asked again when their content changes
+  const query = JSON.stringify({
+    rules,
+    guesses: guesses.map(({ number, correctDigits, correctPositions }) => ({
+      number,
+      correctDigits,
+      correctPositions,
+    })),
+  });
+
+  useEffect(() => {
+    const worker = new Worker(
+      new URL("../lib/candidates.worker.ts", import.meta.url)
+    );
+    worker.onmessage = (event: MessageEvent<CandidatesResponse>) => {
+      if (event.data.id !== requestIdRef.current) return;
+      setResult(event.data);
+      setPending(false);
+    };
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const request: CandidatesRequest = {
+      id: ++requestIdRef.current,
+      ...JSON.parse(query),
+    };
+    setPending(true);
+    workerRef.current?.postMessage(request);
+  }, [query]);
+
+  if (!result) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Counting possible codes...
+      </p>
+    );
+  }
+
+  const { count, listed, summary } = result;
+  const pageCount = Math.max(1, Math.ceil(listed.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = listed.slice(
+    currentPage * PAGE_SIZE,
+    (currentPage + 1) * PAGE_SIZE
+  );
+
+  if (count === 0 && !pending) {
+    return (
+      <p className="text-sm text-red-600 dark:text-red-400">
+        No code fits the feedback so far.
+      </p>
+    );
+  }
+
+  return (
+    <div className={`space-y-3 ${pending ? "opacity-60" : ""}`}>
+      <p className="text-sm text-gray-700 dark:text-gray-300">
+        <span className="font-bold text-indigo-600 dark:text-indigo-400">
+          {count.toLocaleString()}
+        </span>{" "}
+        possible code{count !== 1 ? "s" : ""} left
+        {count > listed.length &&
+          ` (browse the first ${listed.length.toLocaleString()})`}
+      </p>
+
+      {/* Digits: confirmed in every candidate, or ruled out entirely */}
+      <div className="flex flex-wrap gap-1">
+        {getDigitPool(rules).map(String).map((digit) => (
+          <span
+            key={digit}
+            className={`w-7 h-7 flex items-center justify-center rounded font-bold text-sm ${
+              summary.confirmed.includes(digit)
+                ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300"
+                : summary.eliminated.includes(digit)
+                ? "bg-gray-200 dark:bg-gray-700 text-gray-400 dark:text-gray-500 line-through"
+                : "bg-indigo-50 dark:bg-indigo-900/30 text-indigo-900 dark:text-indigo-100"
+            }`}
+          >
+            {digit}
+          </span>
+        ))}
+      </div>
+
+      {/* Digits still possible at each position */}
+      <div
+        className="grid gap-1"
+        style={{ gridTemplateColumns: `repeat(${rules.codeLength}, minmax(0, 1fr))` }}
+      >
+        {summary.positions.map((digits, index) => (
+          <div
+            key={index}
+            className={`rounded p-1 text-center text-xs ${
+              digits.length === 1
+                ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 font-bold"
+                : "bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+            }`}
+          >
+            <div className="text-gray-400 dark:text-gray-500">#{index + 1}</div>
+            <div className="break-all">{digits.join(" ")}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Browse the candidates */}
+      <div className="grid grid-cols-4 gap-1 max-h-40 overflow-y-auto">
+        {visible.map((code) => (
+          <span
+            key={code}
+            className="font-mono text-sm text-center tracking-wider text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 rounded py-0.5"
+          >
+            {code}
+          </span>
+        ))}
+      </div>
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+          <button
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className="px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 disabled:opacity-50"
+          >
+            Prev
+          </button>
+          <span>
+            Page {currentPage + 1} of {pageCount.toLocaleString()}
+          </span>
+          <button
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className="px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import {
+  joinMatchmaking,
+  leaveMatchmaking,
+  subscribeToMatchmaking,
+} from "@/lib/gameRoom";
+import { QUEUE_HEARTBEAT_MS } from "@/lib/matchmaking";
+import {
+  describeRules,
+  formatTime,
+  formatTimeControl,
+  type GameRules,
+  type TimeControl,
+} from "@/lib/rules";
+
+interface FindOpponentProps {
+  userId: string;
+  timeControl: TimeControl;
+  rules: GameRules;
+  rated: boolean;
+  onMatched: (roomCode: string) => void;
+}
+
+interface Search {
+  timeControl: TimeControl;
+  rules: GameRules;
+  rated: boolean;
+  startedAt: number;
+}
+
+// "Find opponent" button for the public matchmaking queue. While searching it
+// keeps the queue entry alive with heartbeats and listens for the pairing.
+export default function FindOpponent({
+  userId,
+  timeControl,
+  rules,
+  rated,
+  onMatched,
+}: FindOpponentProps) {
+  const [search, setSearch] = useState<Search | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Latest callback, so a new parent render doesn't restart the search
+  const onMatchedRef = useRef(onMatched);
+  useEffect(() => {
+    onMatchedRef.current = onMatched;
+  });
+
+  useEffect(() => {
+    if (!search) return;
+
+    let done = false;
+    const finish = (roomCode: string) => {
+      if (done) return;
+      done = true;
+      setSearch(null);
+      onMatchedRef.current(roomCode);
+      // Clear the matched queue entry so the next search starts fresh
+      leaveMatchmaking().catch(() => {});
+    };
+
+    const heartbeat = () =>
+      joinMatchmaking(search.timeControl, search.rules, search.rated)
+        .then((result) => {
+          if (done) return;
+          if (result.status === "matched") {
+            finish(result.roomCode);
+          } else if (result.status === "timed_out") {
+            done = true;
+            setSearch(null);
+            toast("No opponent found. Try again or pick another time control.");
+          }
+        })
+        .catch((error) => {
+          if (done) return;
+          done = true;
+          setSearch(null);
+          toast.error(
+            error instanceof Error ? error.message : "Matchmaking failed"
+          );
+        });
+
+    heartbeat();
+    const heartbeatInterval = setInterval(heartbeat, QUEUE_HEARTBEAT_MS);
+    const tickInterval = setInterval(() => setNow(Date.now()), 1000);
+    const unsubscribe = subscribeToMatchmaking(userId, finish);
+
+    return () => {
+      done = true;
+      clearInterval(heartbeatInterval);
+      clearInterval(tickInterval);
+      unsubscribe();
+    };
+  }, [search, userId]);
+
+  const handleCancel = async () => {
+    setSearch(null);
+    try {
+      // We may have been paired just before cancelling
+      const roomCode = await leaveMatchmaking();
+      if (roomCode) onMatched(roomCode);
+    } catch {
+      toast.error("Failed to leave the queue");
+    }
+  };
+
+  if (!search) {
+    return (
+      <button
+        onClick={() => {
+          setNow(Date.now());
+          setSearch({ timeControl, rules, rated, startedAt: Date.now() });
+        }}
+        className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-4 px-6 rounded-lg text-lg transition-colors"
+      >
+        Find Opponent
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4 space-y-3 text-center">
+      <div className="flex items-center justify-center gap-3">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-green-600"></div>
+        <p className="font-medium text-green-900 dark:text-green-100">
+          Looking for an opponent...{" "}
+          {formatTime(Math.floor((now - search.startedAt) / 1000))}
+        </p>
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        {formatTimeControl(search.timeControl)} · {describeRules(search.rules)} ·{" "}
+        {search.rated ? "rated" : "casual"}
+      </p>
+      <button
+        onClick={handleCancel}
+        className="w-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 font-medium py-2 px-4 rounded-lg transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import type { ActiveRoom } from "@/lib/gameRoom";
+import { getPlayerRoomStatus, type PlayerRoomStatus } from "@/lib/gameMachine";
+import {
+  formatTime,
+  formatTimeControl,
+  getRoomTimeControl,
+  getTimeRemaining,
+} from "@/lib/rules";
+
+interface GamesDashboardProps {
+  games: ActiveRoom[];
+  onOpen: (game: ActiveRoom) => void;
+}
+
+const STATUS_STYLES: Record<
+  PlayerRoomStatus,
+  { label: string; className: string; needsMe: boolean }
+> = {
+  waiting_for_opponent: {
+    label: "Waiting for opponent",
+    className: "text-gray-500 dark:text-gray-400",
+    needsMe: false,
+  },
+  set_secret: {
+    label: "Set your secret",
+    className: "font-bold text-amber-600 dark:text-amber-400",
+    needsMe: true,
+  },
+  opponent_setting_secret: {
+    label: "Opponent setting secret",
+    className: "text-gray-500 dark:text-gray-400",
+    needsMe: false,
+  },
+  ready: {
+    label: "Starting",
+    className: "text-gray-500 dark:text-gray-400",
+    needsMe: false,
+  },
+  my_turn: {
+    label: "Your move",
+    className: "font-bold text-green-600 dark:text-green-400",
+    needsMe: true,
+  },
+  their_turn: {
+    label: "Their move",
+    className: "text-gray-500 dark:text-gray-400",
+    needsMe: false,
+  },
+  finished: {
+    label: "Finished",
+    className: "text-gray-500 dark:text-gray-400",
+    needsMe: false,
+  },
+};
+
+const getStatus = ({ room, playerNumber }: ActiveRoom) =>
+  getPlayerRoomStatus(room, playerNumber);
+
+// All of the user's unfinished rooms, with the ones waiting on the user first
+export default function GamesDashboard({ games, onOpen }: GamesDashboardProps) {
+  if (games.length === 0) return null;
+
+  const needsMe = (game: ActiveRoom) => STATUS_STYLES[getStatus(game)].needsMe;
+  const sorted = [...games].sort((a, b) => Number(needsMe(b)) - Number(needsMe(a)));
+  const waiting = games.filter(needsMe).length;
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+        Your Games
+        {waiting > 0 && (
+          <span className="ml-2 px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 text-xs">
+            {waiting} waiting on you
+          </span>
+        )}
+      </label>
+      <div className="space-y-2">
+        {sorted.map((game) => {
+          const { room, playerNumber } = game;
+          const opponent =
+            playerNumber === 1 ? room.player2_profile : room.player1_profile;
+          const status = getStatus(game);
+          const style = STATUS_STYLES[status];
+
+          return (
+            <button
+              key={room.room_code}
+              onClick={() => onOpen(game)}
+              className={`w-full flex items-center justify-between p-3 rounded-lg text-left transition-colors ${
+                style.needsMe
+                  ? "bg-green-50 dark:bg-green-900/20 hover:bg-green-100 dark:hover:bg-green-900/30"
+                  : "bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600"
+              }`}
+            >
+              <div>
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {opponent
+                    ? `vs ${opponent.display_name || opponent.username}`
+                    : "Open room"}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {room.room_code} · {formatTimeControl(getRoomTimeControl(room))}
+                </p>
+              </div>
+              <div className="text-right text-sm">
+                <p className={style.className}>{style.label}</p>
+                {status === "my_turn" && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatTime(getTimeRemaining(room, playerNumber, Date.now()))} left
+                  </p>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import {
+  formatFeedback,
+  formatThinkTime,
+  type GameRules,
+  type Guess,
+} from "@/lib/rules";
+
+interface GuessHistoryProps {
+  title: string;
+  guesses: Guess[] | undefined;
+  rules: GameRules;
+}
+
+export default function GuessHistory({ title, guesses, rules }: GuessHistoryProps) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4">
+      <h3 className="font-bold text-center text-gray-800 dark:text-gray-200 mb-3 text-sm">
+        {title}
+      </h3>
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {guesses?.map((guess, idx) => (
+          <div
+            key={idx}
+            className="bg-gray-50 dark:bg-gray-700 rounded-lg p-2 text-xs"
+          >
+            <div className="font-mono text-center text-lg font-bold text-gray-900 dark:text-white tracking-wider">
+              {guess.number}
+            </div>
+            <div className="text-center text-gray-600 dark:text-gray-300 mt-1">
+              {formatFeedback(guess, rules)}
+            </div>
+            {guess.thinkTimeMs !== undefined && (
+              <div className="text-center text-gray-400 dark:text-gray-500 mt-0.5">
+                {formatThinkTime(guess.thinkTimeMs)}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getLobbyRooms, subscribeToLobby, type LobbyRoom } from "@/lib/gameRoom";
+import { formatRating } from "@/lib/rating";
+import {
+  describeRules,
+  formatTimeControl,
+  getRoomRules,
+  getRoomTimeControl,
+} from "@/lib/rules";
+
+interface LobbyProps {
+  userId: string;
+  onJoin: (roomCode: string) => void;
+}
+
+// Realtime events come in bursts (a room filling is a few updates), so
+// reloads are batched
+const RELOAD_DELAY_MS = 500;
+
+// Public rooms waiting for an opponent, kept live over realtime. Joining goes
+// through the regular join flow, so a room someone else just took is
+// rejected as full.
+export default function Lobby({ userId, onJoin }: LobbyProps) {
+  const [rooms, setRooms] = useState<LobbyRoom[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+    let reloadTimer: NodeJS.Timeout | null = null;
+
+    const load = () =>
+      getLobbyRooms()
+        .then((lobby) => {
+          if (isMounted) setRooms(lobby);
+        })
+        .catch((error) => console.error("Failed to load lobby:", error))
+        .finally(() => {
+          if (isMounted) setLoading(false);
+        });
+
+    load();
+    const unsubscribe = subscribeToLobby(() => {
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(load, RELOAD_DELAY_MS);
+    });
+
+    return () => {
+      isMounted = false;
+      if (reloadTimer) clearTimeout(reloadTimer);
+      unsubscribe();
+    };
+  }, []);
+
+  const openRooms = rooms.filter(({ room }) => room.player1_id !== userId);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+        Open Games
+      </label>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : openRooms.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No open games right now. Create a public game to list yours here.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {openRooms.map(({ room, creatorRating }) => (
+            <div
+              key={room.room_code}
+              className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-900 dark:text-white truncate">
+                  {room.player1_profile?.display_name ||
+                    room.player1_profile?.username ||
+                    "Player"}{" "}
+                  <span className="text-sm text-indigo-600 dark:text-indigo-400">
+                    {creatorRating
+                      ? formatRating(creatorRating.rating, creatorRating.deviation)
+                      : "unrated"}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {formatTimeControl(getRoomTimeControl(room))} ·{" "}
+                  {describeRules(getRoomRules(room))} ·{" "}
+                  {room.rated ? "rated" : "casual"}
+                </div>
+              </div>
+              <button
+                onClick={() => onJoin(room.room_code)}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white font-medium py-2 px-4 rounded-lg text-sm transition-colors"
+              >
+                Join
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
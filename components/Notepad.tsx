@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import type { GameRules, Guess } from "@/lib/rules";
+import CandidatesPanel from "@/components/CandidatesPanel";
+
+interface NotepadProps {
+  isOpen: boolean;
+  onClose: () => void;
+  digits: number[]; // digit pool for the crossing-out grid
+  crossedNumbers: Set<number>;
+  onToggleNumber: (num: number) => void;
+  notes: string;
+  onNotesChange: (notes: string) => void;
+  // Enables the candidates assistant; omitted when the room turns it off
+  assistant?: { rules: GameRules; guesses: Guess[] } | null;
+}
+
+export default function Notepad({
+  isOpen,
+  onClose,
+  digits,
+  crossedNumbers,
+  onToggleNumber,
+  notes,
+  onNotesChange,
+  assistant,
+}: NotepadProps) {
+  const [showAssistant, setShowAssistant] = useState(false);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white">
+            Game Notes
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Number grid for crossing out */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Cross out numbers:
+          </h4>
+          <div className="grid grid-cols-5 gap-2">
+            {digits.map((num) => (
+              <button
+                key={num}
+                onClick={() => onToggleNumber(num)}
+                className={`aspect-square rounded-lg font-bold text-lg transition-all ${
+                  crossedNumbers.has(num)
+                    ? "bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 line-through"
+                    : "bg-indigo-100 dark:bg-indigo-900/30 text-indigo-900 dark:text-indigo-100 hover:bg-indigo-200 dark:hover:bg-indigo-900/50"
+                }`}
+              >
+                {num}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Notes textarea */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Your notes:
+          </h4>
+          <textarea
+            value={notes}
+            onChange={(e) => onNotesChange(e.target.value)}
+            placeholder="Write your strategy, observations, or hints here..."
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white resize-none"
+            rows={4}
+          />
+        </div>
+
+        {/* Candidates assistant */}
+        {assistant && (
+          <div>
+            <button
+              onClick={() => setShowAssistant(!showAssistant)}
+              className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline mb-2"
+            >
+              {showAssistant ? "Hide" : "Show"} remaining candidates
+            </button>
+            {showAssistant && (
+              <CandidatesPanel rules={assistant.rules} guesses={assistant.guesses} />
+            )}
+          </div>
+        )}
+
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-medium py-2 rounded-lg transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
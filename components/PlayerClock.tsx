@@ -0,0 +1,45 @@
+"use client";
+
+import { formatTime } from "@/lib/rules";
+
+interface PlayerClockProps {
+  label: string;
+  seconds: number;
+  isMe: boolean; // highlight the viewer's own clock
+  isActive: boolean; // clock is running
+}
+
+export default function PlayerClock({ label, seconds, isMe, isActive }: PlayerClockProps) {
+  return (
+    <div
+      className={`rounded-lg p-3 ${
+        isMe
+          ? "bg-indigo-100 dark:bg-indigo-900/30 ring-2 ring-indigo-500"
+          : "bg-gray-100 dark:bg-gray-700"
+      }`}
+    >
+      <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+        {label}
+      </div>
+      <div
+        className={`text-2xl font-mono font-bold ${
+          seconds <= 30
+            ? "text-red-600 dark:text-red-400"
+            : seconds <= 60
+            ? "text-yellow-600 dark:text-yellow-400"
+            : "text-gray-900 dark:text-white"
+        }`}
+      >
+        {formatTime(seconds)}
+      </div>
+      {isActive && (
+        <div className="flex items-center gap-1 mt-1">
+          <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+          <span className="text-xs text-gray-600 dark:text-gray-400">
+            Active
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  chargeMove,
+  describeRules,
+  evaluateGuess,
+  formatFeedback,
+  generateSecret,
+  getDigitPool,
+  getTimeRemaining,
+  isSolved,
+  validateGuess,
+  type GameRules,
+  type Guess,
+  type RoomClock,
+  type TimeControl,
+} from "@/lib/rules";
+import { recordPracticeResult, type PracticeStats } from "@/lib/practice";
+import GuessHistory from "@/components/GuessHistory";
+import Notepad from "@/components/Notepad";
+import PlayerClock from "@/components/PlayerClock";
+import toast from "react-hot-toast";
+
+interface PracticeGameProps {
+  rules: GameRules;
+  timeControl: TimeControl;
+  onExit: () => void;
+}
+
+type PracticeStatus = "playing" | "won" | "lost";
+
+// Start a fresh clock for the single practice player (always player 1)
+const startClock = (timeControl: TimeControl): RoomClock => ({
+  time_control: timeControl,
+  player1_time_remaining: timeControl.base,
+  current_turn_player: 1,
+  turn_started_at: new Date().toISOString(),
+  winner: null,
+});
+
+// Offline single-player game against a random secret. Runs entirely in the
+// browser and records results with lib/practice instead of game_rooms.
+export default function PracticeGame({ rules, timeControl, onExit }: PracticeGameProps) {
+  const [secret, setSecret] = useState(() => generateSecret(rules));
+  const [guesses, setGuesses] = useState<Guess[]>([]);
+  const [guessInput, setGuessInput] = useState("");
+  const [guessError, setGuessError] = useState("");
+  const [status, setStatus] = useState<PracticeStatus>("playing");
+  const [clock, setClock] = useState<RoomClock>(() => startClock(timeControl));
+  const [timeRemaining, setTimeRemaining] = useState(timeControl.base);
+  const [stats, setStats] = useState<PracticeStats | null>(null);
+
+  // Notepad state
+  const [showNotepad, setShowNotepad] = useState(false);
+  const [crossedNumbers, setCrossedNumbers] = useState<Set<number>>(new Set());
+  const [notes, setNotes] = useState("");
+
+  const finish = useCallback(
+    (won: boolean, guessCount: number) => {
+      setStatus(won ? "won" : "lost");
+      setClock((prev) => ({ ...prev, current_turn_player: null, turn_started_at: null }));
+      setStats(recordPracticeResult({ won, guessCount, rules }));
+    },
+    [rules]
+  );
+
+  // Tick the clock and end the game when it runs out
+  useEffect(() => {
+    if (status !== "playing") return;
+
+    const tick = () => {
+      const remaining = getTimeRemaining(clock, 1, Date.now());
+      setTimeRemaining(remaining);
+      if (remaining <= 0) {
+        toast.error("Time's up!");
+        finish(false, guesses.length);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [clock, status, guesses.length, finish]);
+
+  const handleSubmitGuess = () => {
+    setGuessError("");
+
+    const error = validateGuess(guessInput, rules);
+    if (error) {
+      setGuessError(error);
+      toast.error(error);
+      return;
+    }
+
+    const guess: Guess = {
+      number: guessInput,
+      ...evaluateGuess(guessInput, secret, rules.feedback),
+    };
+    const updatedGuesses = [...guesses, guess];
+    setGuesses(updatedGuesses);
+    setGuessInput("");
+
+    if (isSolved(guess)) {
+      toast.success("You cracked it!");
+      finish(true, updatedGuesses.length);
+      return;
+    }
+
+    toast.success(formatFeedback(guess, rules));
+    const now = Date.now();
+    setClock((prev) => ({
+      ...prev,
+      ...chargeMove(prev, 1, now),
+      turn_started_at: new Date(now).toISOString(),
+    }));
+  };
+
+  const handleGiveUp = () => {
+    if (!window.confirm("Give up and reveal the secret?")) return;
+    finish(false, guesses.length);
+  };
+
+  const handlePlayAgain = () => {
+    setSecret(generateSecret(rules));
+    setGuesses([]);
+    setGuessInput("");
+    setGuessError("");
+    setStatus("playing");
+    setClock(startClock(timeControl));
+    setTimeRemaining(timeControl.base);
+    setStats(null);
+    setCrossedNumbers(new Set());
+    setNotes("");
+    setShowNotepad(false);
+  };
+
+  const toggleCrossedNumber = (num: number) => {
+    setCrossedNumbers((prev) => {
+      const newSet = new Set(prev);
+      if (newSet.has(num)) {
+        newSet.delete(num);
+      } else {
+        newSet.add(num);
+      }
+      return newSet;
+    });
+  };
+
+  if (status !== "playing") {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8 text-center space-y-6">
+        <div className="text-6xl mb-4">{status === "won" ? "🎉" : "⏱️"}</div>
+        <h2 className="text-3xl font-bold text-indigo-900 dark:text-indigo-100">
+          {status === "won" ? "Solved!" : "Better luck next time"}
+        </h2>
+        <div className="bg-indigo-50 dark:bg-indigo-900/30 rounded-lg p-4">
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-1">
+            The secret was
+          </p>
+          <p className="text-3xl font-bold tracking-widest text-indigo-900 dark:text-indigo-100">
+            {secret}
+          </p>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">
+            {guesses.length} guess{guesses.length !== 1 ? "es" : ""}
+          </p>
+        </div>
+
+        {stats && (
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div>
+              <div className="text-2xl font-bold text-indigo-600 dark:text-indigo-400">
+                {stats.total_games}
+              </div>
+              <div className="text-xs text-gray-600 dark:text-gray-400">
+                Practice games
+              </div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+                {stats.games_won}
+              </div>
+              <div className="text-xs text-gray-600 dark:text-gray-400">
+                Solved
+              </div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                {stats.best_guess_count ?? "N/A"}
+              </div>
+              <div className="text-xs text-gray-600 dark:text-gray-400">
+                Best
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <button
+            onClick={handlePlayAgain}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-4 px-6 rounded-lg text-lg transition-colors"
+          >
+            Play Again
+          </button>
+          <button
+            onClick={onExit}
+            className="w-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 font-medium py-3 px-6 rounded-lg transition-colors"
+          >
+            Back to Menu
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex-1">
+            <h2 className="text-xl font-bold text-indigo-900 dark:text-indigo-100">
+              Practice
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {describeRules(rules)}
+            </p>
+          </div>
+          <button
+            onClick={() => setShowNotepad(!showNotepad)}
+            className="p-2 bg-yellow-100 dark:bg-yellow-900/30 hover:bg-yellow-200 dark:hover:bg-yellow-900/50 rounded-lg transition-colors"
+            title="Toggle notepad"
+          >
+            <svg
+              className="w-6 h-6 text-yellow-700 dark:text-yellow-300"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="mb-4">
+          <PlayerClock label="You" seconds={timeRemaining} isMe isActive />
+        </div>
+
+        <div className="space-y-3">
+          <input
+            type="tel"
+            inputMode="numeric"
+            pattern="[0-9]*"
+            maxLength={rules.codeLength}
+            value={guessInput}
+            onChange={(e) => setGuessInput(e.target.value)}
+            onKeyPress={(e) => e.key === "Enter" && handleSubmitGuess()}
+            placeholder="Enter your guess"
+            className="w-full px-4 py-3 text-lg border-2 border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:border-indigo-500 dark:bg-gray-700 dark:text-white text-center tracking-widest"
+          />
+          {guessError && (
+            <p className="text-red-500 text-sm text-center">{guessError}</p>
+          )}
+          <button
+            onClick={handleSubmitGuess}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-6 rounded-lg transition-colors"
+          >
+            Submit Guess
+          </button>
+        </div>
+      </div>
+
+      <GuessHistory title="Your guesses" guesses={guesses} rules={rules} />
+
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-4">
+        <button
+          onClick={handleGiveUp}
+          className="w-full bg-red-600 hover:bg-red-700 text-white font-medium py-3 px-6 rounded-lg transition-colors"
+        >
+          Give Up
+        </button>
+      </div>
+
+      <Notepad
+        isOpen={showNotepad}
+        onClose={() => setShowNotepad(false)}
+        digits={getDigitPool(rules)}
+        crossedNumbers={crossedNumbers}
+        onToggleNumber={toggleCrossedNumber}
+        notes={notes}
+        onNotesChange={setNotes}
+        assistant={{ rules, guesses }}
+      />
+    </div>
+  );
+}
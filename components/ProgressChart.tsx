@@ -0,0 +1,96 @@
+"use client";
+
+import type { ChartPoint } from "@/lib/progress";
+
+interface ProgressChartProps {
+  title: string;
+  points: ChartPoint[];
+  formatValue: (value: number) => string;
+  // Tailwind stroke/fill color for the line, e.g. "text-indigo-600"
+  colorClass?: string;
+}
+
+const WIDTH = 300;
+const HEIGHT = 120;
+const PADDING = 6;
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+// Small line chart of one metric over time, scaled to its own min and max
+export default function ProgressChart({
+  title,
+  points,
+  formatValue,
+  colorClass = "text-indigo-600 dark:text-indigo-400",
+}: ProgressChartProps) {
+  const latest = points[points.length - 1];
+
+  if (!latest) {
+    return (
+      <div className="bg-gray-50 dark:bg-gray-700 rounded-xl p-4">
+        <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">{title}</div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-8 text-center">
+          No games in this range
+        </p>
+      </div>
+    );
+  }
+
+  const times = points.map((p) => p.time);
+  const values = points.map((p) => p.value);
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+
+  const x = (time: number) =>
+    maxTime === minTime
+      ? WIDTH / 2
+      : PADDING + ((time - minTime) / (maxTime - minTime)) * (WIDTH - 2 * PADDING);
+  const y = (value: number) =>
+    maxValue === minValue
+      ? HEIGHT / 2
+      : HEIGHT -
+        PADDING -
+        ((value - minValue) / (maxValue - minValue)) * (HEIGHT - 2 * PADDING);
+
+  const line = points.map((p) => `${x(p.time)},${y(p.value)}`).join(" ");
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-xl p-4">
+      <div className="flex items-baseline justify-between mb-2">
+        <span className="text-sm text-gray-600 dark:text-gray-400">{title}</span>
+        <span className={`text-xl font-bold ${colorClass}`}>
+          {formatValue(latest.value)}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className={`w-full h-28 ${colorClass}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`${title} over time`}
+      >
+        <polyline
+          points={line}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+        {points.length === 1 && (
+          <circle cx={x(latest.time)} cy={y(latest.value)} r={3} fill="currentColor" />
+        )}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+        <span>{formatDate(minTime)}</span>
+        <span>
+          {formatValue(minValue)} – {formatValue(maxValue)}
+        </span>
+        <span>{formatDate(maxTime)}</span>
+      </div>
+    </div>
+  );
+}
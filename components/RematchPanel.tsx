@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import {
+  getSeriesRooms,
+  respondToRematch,
+  type GameRoom,
+  type RematchAction,
+} from "@/lib/gameRoom";
+import { getSeriesScore, type SeriesScore } from "@/lib/history";
+
+interface RematchPanelProps {
+  room: GameRoom;
+  userId: string;
+  opponentName: string;
+  // Open the rematch room once it exists (for both players)
+  onStart: (roomCode: string) => void;
+}
+
+// Gameover controls for rematching a two-player room, plus the head-to-head
+// score of the series so far. Offers and answers arrive through the room's
+// realtime updates.
+export default function RematchPanel({
+  room,
+  userId,
+  opponentName,
+  onStart,
+}: RematchPanelProps) {
+  const [pending, setPending] = useState(false);
+  const [series, setSeries] = useState<SeriesScore | null>(null);
+  const startedRef = useRef<string | null>(null);
+
+  const offeredByMe = room.rematch_offered_by === userId;
+  const offeredToMe = !!room.rematch_offered_by && !offeredByMe;
+
+  useEffect(() => {
+    if (!room.series_id) return;
+    let isMounted = true;
+    getSeriesRooms(room.series_id)
+      .then((rooms) => {
+        if (isMounted) setSeries(getSeriesScore(rooms, userId));
+      })
+      .catch((error) => console.error("Failed to load series:", error));
+    return () => {
+      isMounted = false;
+    };
+  }, [room.series_id, userId]);
+
+  useEffect(() => {
+    if (offeredToMe && !room.rematch_declined && !room.rematch_room_code) {
+      toast(`${opponentName} wants a rematch!`, { icon: "🔁" });
+    }
+  }, [offeredToMe, room.rematch_declined, room.rematch_room_code, opponentName]);
+
+  useEffect(() => {
+    const code = room.rematch_room_code;
+    if (!code || startedRef.current === code) return;
+    startedRef.current = code;
+    onStart(code);
+  }, [room.rematch_room_code, onStart]);
+
+  const handleAction = async (action: RematchAction) => {
+    setPending(true);
+    try {
+      await respondToRematch(room.room_code, action);
+      if (action === "decline") toast("Rematch declined");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Rematch failed");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {series && (
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Series vs {opponentName}:{" "}
+          <span className="font-bold text-indigo-600 dark:text-indigo-400">
+            {series.wins} – {series.losses}
+          </span>
+          {series.ties > 0 && ` (${series.ties} tie${series.ties !== 1 ? "s" : ""})`}
+        </p>
+      )}
+
+      {room.rematch_room_code ? (
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Starting the rematch...
+        </p>
+      ) : room.rematch_declined ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {offeredByMe
+            ? `${opponentName} declined the rematch.`
+            : "You declined the rematch."}
+        </p>
+      ) : offeredToMe ? (
+        <div className="bg-indigo-50 dark:bg-indigo-900/20 rounded-lg p-4 space-y-3">
+          <p className="text-indigo-900 dark:text-indigo-100 font-medium">
+            {opponentName} wants a rematch.{" "}
+            {room.player2_id === userId
+              ? "You'll move first."
+              : `${opponentName} will move first.`}
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => handleAction("accept")}
+              disabled={pending}
+              className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => handleAction("decline")}
+              disabled={pending}
+              className="bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => handleAction("offer")}
+          disabled={pending || offeredByMe}
+          className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-bold py-3 px-6 rounded-lg transition-colors"
+        >
+          {offeredByMe ? `Waiting for ${opponentName}...` : "Rematch"}
+        </button>
+      )}
+    </div>
+  );
+}
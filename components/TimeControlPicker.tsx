@@ -0,0 +1,117 @@
+"use client";
+
+import {
+  formatTimeControl,
+  type ClockMode,
+  type TimeControl,
+} from "@/lib/rules";
+
+interface TimeControlPickerProps {
+  value: TimeControl;
+  onChange: (control: TimeControl) => void;
+}
+
+const MODE_OPTIONS: { label: string; value: ClockMode }[] = [
+  { label: "Increment", value: "increment" },
+  { label: "Delay", value: "delay" },
+  { label: "No bonus", value: "none" },
+  { label: "Per move", value: "correspondence" },
+];
+
+const BASE_OPTIONS = [
+  { label: "1 min", value: 60 },
+  { label: "3 min", value: 180 },
+  { label: "5 min", value: 300 },
+  { label: "10 min", value: 600 },
+];
+
+const BONUS_OPTIONS = [1, 2, 5, 10]; // seconds
+
+const CORRESPONDENCE_OPTIONS = [
+  { label: "12 hours", value: 12 * 3600 },
+  { label: "1 day", value: 24 * 3600 },
+  { label: "3 days", value: 3 * 24 * 3600 },
+];
+
+// Switch modes, keeping the base time and bonus where they still make sense
+const withMode = (control: TimeControl, mode: ClockMode): TimeControl => {
+  if (mode === "correspondence") {
+    return { mode, base: 24 * 3600, bonus: 0 };
+  }
+  const base = control.mode === "correspondence" ? 300 : control.base;
+  const bonus = mode === "none" ? 0 : control.bonus || 5;
+  return { mode, base, bonus };
+};
+
+const optionClass = (selected: boolean) =>
+  `py-2 px-3 rounded-lg font-medium text-sm transition-colors ${
+    selected
+      ? "bg-indigo-600 text-white"
+      : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+  }`;
+
+export default function TimeControlPicker({ value, onChange }: TimeControlPickerProps) {
+  const hasBonus = value.mode === "increment" || value.mode === "delay";
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+        Time Control:{" "}
+        <span className="font-bold text-indigo-600 dark:text-indigo-400">
+          {formatTimeControl(value)}
+        </span>
+      </label>
+      <div className="grid grid-cols-4 gap-2">
+        {MODE_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => onChange(withMode(value, option.value))}
+            className={optionClass(value.mode === option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {value.mode === "correspondence" ? (
+        <div className="grid grid-cols-3 gap-2">
+          {CORRESPONDENCE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => onChange({ ...value, base: option.value })}
+              className={optionClass(value.base === option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-4 gap-2">
+          {BASE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => onChange({ ...value, base: option.value })}
+              className={optionClass(value.base === option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {hasBonus && (
+        <div className="grid grid-cols-4 gap-2">
+          {BONUS_OPTIONS.map((seconds) => (
+            <button
+              key={seconds}
+              onClick={() => onChange({ ...value, bonus: seconds })}
+              className={optionClass(value.bonus === seconds)}
+            >
+              +{seconds}s
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
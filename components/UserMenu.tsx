@@ -74,6 +74,17 @@ export default function UserMenu() {
             <span className="text-sm text-gray-700 dark:text-gray-300">My Stats</span>
           </Link>
 
+          <Link
+            href="/history"
+            onClick={() => setIsOpen(false)}
+            className="flex items-center gap-3 px-4 py-3 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <svg className="w-5 h-5 text-gray-600 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="text-sm text-gray-700 dark:text-gray-300">Game History</span>
+          </Link>
+
           <Link
             href="/friends"
             onClick={() => setIsOpen(false)}
@@ -3,6 +3,7 @@
 import { createContext, useContext, useEffect, useState, useCallback, useRef } from "react";
 import sdk from "@farcaster/miniapp-sdk";
 import { UserProfile, getOrCreateProfile, getUserProfile } from "@/lib/auth";
+import { SESSION_TOKEN_KEY } from "@/utils/supabase/client";
 import toast from "react-hot-toast";
 
 export interface FarcasterUser {
@@ -23,6 +24,40 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Exchange a Quick Auth token for a Supabase session (JWT with sub = FID) and
+// store it so the Supabase client and /api/rooms calls are authenticated.
+// Returns the verified FID.
+const createSession = async (): Promise<string> => {
+  const result = await sdk.experimental.quickAuth();
+
+  if (!result?.token) {
+    throw new Error("Failed to get authentication token");
+  }
+
+  // Verify the token with our backend
+  const response = await fetch("/api/auth", {
+    headers: {
+      Authorization: `Bearer ${result.token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || "Authentication failed");
+  }
+
+  const data = await response.json();
+
+  if (!data.success || !data.user?.fid || !data.session?.accessToken) {
+    throw new Error("Invalid authentication response");
+  }
+
+  localStorage.setItem("farcaster_token", result.token);
+  localStorage.setItem(SESSION_TOKEN_KEY, data.session.accessToken);
+
+  return String(data.user.fid);
+};
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<FarcasterUser | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
@@ -66,6 +101,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           };
 
           console.log("🔵 AuthContext: Farcaster user found:", farcasterUser);
+
+          // Refresh the Supabase session before touching the database, since
+          // RLS only lets users write their own rows
+          try {
+            await createSession();
+          } catch (sessionError) {
+            console.error("❌ Failed to create session:", sessionError);
+          }
+
           setUser(farcasterUser);
           localStorage.setItem("farcaster_user", JSON.stringify(farcasterUser));
 
@@ -98,43 +142,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const handleSignIn = useCallback(async () => {
     setLoading(true);
     try {
-      // Use quickAuth to get a verified JWT token
-      const result = await sdk.experimental.quickAuth();
-
-      if (!result?.token) {
-        throw new Error("Failed to get authentication token");
-      }
-
-      // Verify the token with our backend
-      const response = await fetch("/api/auth", {
-        headers: {
-          Authorization: `Bearer ${result.token}`,
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Authentication failed");
-      }
-
-      const data = await response.json();
-
-      if (!data.success || !data.user?.fid) {
-        throw new Error("Invalid authentication response");
-      }
+      const fid = await createSession();
 
       // Get fresh context for user details
       const context = await sdk.context;
 
       const farcasterUser: FarcasterUser = {
-        fid: String(data.user.fid),
+        fid,
         username: context?.user?.username,
         displayName: context?.user?.displayName,
         pfpUrl: context?.user?.pfpUrl,
       };
 
       setUser(farcasterUser);
-      localStorage.setItem("farcaster_token", result.token);
       localStorage.setItem("farcaster_user", JSON.stringify(farcasterUser));
 
       // Get or create profile
@@ -158,6 +178,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const handleSignOut = useCallback(async () => {
     localStorage.removeItem("farcaster_token");
     localStorage.removeItem("farcaster_user");
+    localStorage.removeItem(SESSION_TOKEN_KEY);
     setUser(null);
     setProfile(null);
     toast.success("Signed out successfully");
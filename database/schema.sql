@@ -25,6 +25,9 @@ CREATE TABLE user_stats (
   games_won INTEGER DEFAULT 0,
   games_lost INTEGER DEFAULT 0,
   games_tied INTEGER DEFAULT 0,
+  -- Guess-count stats only include games played with the default rules, so
+  -- variants with longer codes don't skew them
+  classic_games INTEGER DEFAULT 0,
   total_guesses INTEGER DEFAULT 0,
   best_guess_count INTEGER DEFAULT NULL,
   current_streak INTEGER DEFAULT 0,
@@ -34,30 +37,151 @@ CREATE TABLE user_stats (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Results against the computer, per bot level (kept out of user_stats)
+CREATE TABLE user_bot_stats (
+  user_id TEXT NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  bot_level TEXT NOT NULL CHECK (bot_level IN ('easy', 'medium', 'hard')),
+  games_played INTEGER DEFAULT 0,
+  games_won INTEGER DEFAULT 0,
+  games_lost INTEGER DEFAULT 0,
+  games_tied INTEGER DEFAULT 0,
+  best_guess_count INTEGER DEFAULT NULL,
+  last_played_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (user_id, bot_level)
+);
+
+-- Glicko-2 skill ratings, one row per player and time-control category (see
+-- lib/rating.ts). Written by update_ratings_after_game() for rated games.
+CREATE TABLE user_ratings (
+  user_id TEXT NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('bullet', 'blitz', 'rapid', 'correspondence')),
+  rating DOUBLE PRECISION NOT NULL DEFAULT 1500,
+  deviation DOUBLE PRECISION NOT NULL DEFAULT 350,
+  volatility DOUBLE PRECISION NOT NULL DEFAULT 0.06,
+  games_played INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, category)
+);
+
+-- One row per player per finished two-player game: the result plus the
+-- player's stats and rating right after it, for the progress charts (see
+-- lib/progress.ts). Written by record_game_history().
+CREATE TABLE user_game_history (
+  id BIGSERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  room_code TEXT NOT NULL,
+  result TEXT NOT NULL CHECK (result IN ('won', 'lost', 'tie')),
+  rated BOOLEAN NOT NULL DEFAULT FALSE,
+  category TEXT NOT NULL CHECK (category IN ('bullet', 'blitz', 'rapid', 'correspondence')),
+  -- The player's own guesses; NULL outside the default rules (as in user_stats)
+  guess_count INTEGER,
+  -- Rating in `category` after the game; NULL for casual games
+  rating DOUBLE PRECISION,
+  rating_deviation DOUBLE PRECISION,
+  -- user_stats totals after the game
+  total_games INTEGER NOT NULL,
+  games_won INTEGER NOT NULL,
+  played_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, room_code)
+);
+
 -- Game rooms
 CREATE TABLE game_rooms (
   id BIGSERIAL PRIMARY KEY,
   room_code TEXT UNIQUE NOT NULL,
+  -- Rule variant: { codeLength: 3-6, allowZero, allowRepeats, feedback }
+  rules JSONB NOT NULL DEFAULT '{"codeLength": 4, "allowZero": false, "allowRepeats": false, "feedback": "guess4"}'::jsonb
+    CHECK (
+      (rules->>'codeLength')::INTEGER BETWEEN 3 AND 6
+      AND COALESCE(rules->>'feedback', 'guess4') IN ('guess4', 'bulls_cows')
+    ),
+  -- Time control: { mode: increment | delay | none | correspondence, base, bonus }
+  -- in seconds; base is per move for correspondence
+  time_control JSONB NOT NULL DEFAULT '{"mode": "increment", "base": 300, "bonus": 5}'::jsonb
+    CHECK (
+      time_control->>'mode' IN ('increment', 'delay', 'none', 'correspondence')
+      AND (time_control->>'base')::INTEGER > 0
+    ),
+  -- Whether players may use the notepad candidates assistant (off for ranked play)
+  assistant_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Rated games update both players' ratings (casual games don't). Never
+  -- against the computer, and always without the assistant.
+  rated BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Listed in the lobby while waiting for player 2
+  is_public BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Who may follow the game at /watch/<room code>: anyone, or friends of
+  -- either player
+  spectators TEXT NOT NULL DEFAULT 'everyone' CHECK (spectators IN ('everyone', 'friends')),
   player1_id TEXT REFERENCES user_profiles(id),
   player2_id TEXT REFERENCES user_profiles(id),
-  player1_secret TEXT DEFAULT '',
-  player2_secret TEXT DEFAULT '',
+  -- Set when player 2 is the computer (player2_id is then a bot profile)
+  bot_level TEXT CHECK (bot_level IN ('easy', 'medium', 'hard')),
   player1_guesses JSONB DEFAULT '[]'::jsonb,
   player2_guesses JSONB DEFAULT '[]'::jsonb,
   player1_ready BOOLEAN DEFAULT FALSE,
   player2_ready BOOLEAN DEFAULT FALSE,
+  -- SHA-256(salt:secret), published when each player marks ready
+  player1_commitment TEXT,
+  player2_commitment TEXT,
   current_turn INTEGER DEFAULT 1 CHECK (current_turn IN (1, 2)),
   game_started BOOLEAN DEFAULT FALSE,
   winner TEXT CHECK (winner IN ('1', '2', 'tie')),
   finished_at TIMESTAMP WITH TIME ZONE,
+  -- Set by update_ratings_after_game() so a game is rated at most once
+  ratings_applied BOOLEAN NOT NULL DEFAULT FALSE,
   -- Timer fields
   player1_time_remaining INTEGER DEFAULT 300,
   player2_time_remaining INTEGER DEFAULT 300,
   current_turn_player INTEGER CHECK (current_turn_player IN (1, 2)),
   turn_started_at TIMESTAMP WITH TIME ZONE,
+  -- Rematch offer on a finished room; rematch_room_code is set on accept.
+  -- series_id is the first room of a chain of rematches.
+  rematch_offered_by TEXT REFERENCES user_profiles(id),
+  rematch_declined BOOLEAN NOT NULL DEFAULT FALSE,
+  rematch_room_code TEXT,
+  series_id TEXT,
   -- Optimistic locking
   version INTEGER DEFAULT 1 NOT NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (NOT rated OR (NOT assistant_enabled AND bot_level IS NULL))
+);
+
+-- Player secrets (kept out of game_rooms so they never reach the opponent
+-- through selects or realtime payloads; only the API routes can read them)
+CREATE TABLE game_secrets (
+  room_code TEXT NOT NULL REFERENCES game_rooms(room_code) ON DELETE CASCADE,
+  player_number INTEGER NOT NULL CHECK (player_number IN (1, 2)),
+  secret TEXT NOT NULL,
+  salt TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (room_code, player_number)
+);
+
+-- Farcaster mini app notification tokens, one per user and client. Written by
+-- /api/webhook, read by the server only (see lib/notifications.ts).
+CREATE TABLE notification_tokens (
+  fid TEXT NOT NULL,
+  app_key TEXT NOT NULL, -- the client's signer for this user, from the webhook
+  url TEXT NOT NULL, -- the client's notification endpoint
+  token TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (fid, app_key)
+);
+
+-- Public matchmaking queue (see lib/matchmaking.ts). One entry per waiting
+-- player; `matched` is set when another player claims the entry and
+-- room_code once their room exists. Written only by /api/rooms/queue.
+CREATE TABLE matchmaking_queue (
+  user_id TEXT PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+  queue_key TEXT NOT NULL, -- time control + rule variant
+  time_control JSONB NOT NULL,
+  rules JSONB NOT NULL,
+  matched BOOLEAN NOT NULL DEFAULT FALSE,
+  room_code TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() -- client heartbeat
 );
 
 -- Game invites
@@ -68,7 +192,8 @@ CREATE TABLE game_invites (
   to_user_id TEXT REFERENCES user_profiles(id) ON DELETE CASCADE,
   status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'expired')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  expires_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '24 hours'
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '24 hours',
+  notified_at TIMESTAMP WITH TIME ZONE -- set once the recipient is notified
 );
 
 -- Friend requests
@@ -79,6 +204,7 @@ CREATE TABLE friend_requests (
   status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  notified_at TIMESTAMP WITH TIME ZONE, -- set once the recipient is notified
   UNIQUE(from_user_id, to_user_id)
 );
 
@@ -99,7 +225,15 @@ CREATE INDEX idx_game_rooms_code ON game_rooms(room_code);
 CREATE INDEX idx_game_rooms_player1 ON game_rooms(player1_id);
 CREATE INDEX idx_game_rooms_player2 ON game_rooms(player2_id);
 CREATE INDEX idx_game_rooms_active ON game_rooms(winner) WHERE winner IS NULL;
+CREATE INDEX idx_game_rooms_finished ON game_rooms(finished_at DESC) WHERE winner IS NOT NULL;
 CREATE INDEX idx_game_rooms_version ON game_rooms(room_code, version);
+CREATE INDEX idx_game_rooms_lobby ON game_rooms(created_at DESC) WHERE is_public AND player2_id IS NULL;
+CREATE INDEX idx_game_rooms_series ON game_rooms(series_id) WHERE series_id IS NOT NULL;
+
+CREATE INDEX idx_user_ratings_leaderboard ON user_ratings(category, rating DESC);
+CREATE INDEX idx_user_game_history_user ON user_game_history(user_id, played_at);
+
+CREATE INDEX idx_matchmaking_queue_key ON matchmaking_queue(queue_key, created_at) WHERE NOT matched;
 
 CREATE INDEX idx_game_invites_to_user ON game_invites(to_user_id);
 CREATE INDEX idx_game_invites_from_user ON game_invites(from_user_id);
@@ -122,14 +256,105 @@ ALTER TABLE game_rooms ENABLE ROW LEVEL SECURITY;
 ALTER TABLE game_invites ENABLE ROW LEVEL SECURITY;
 ALTER TABLE friend_requests ENABLE ROW LEVEL SECURITY;
 ALTER TABLE friendships ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_bot_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_game_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE matchmaking_queue ENABLE ROW LEVEL SECURITY;
+
+-- Policies key off the session JWT minted by /api/auth, whose `sub` claim is
+-- the caller's Farcaster FID. Reads stay open where the app needs them
+-- (profiles, leaderboard, joining by room code); writes are limited to the
+-- players involved. The /api/rooms handlers use the service role and bypass RLS.
+CREATE OR REPLACE FUNCTION requesting_user_id()
+RETURNS TEXT AS $$
+  SELECT NULLIF(auth.jwt() ->> 'sub', '')
+$$ LANGUAGE sql STABLE;
+
+-- user_profiles: public read, users write their own profile
+CREATE POLICY "profiles_select" ON user_profiles FOR SELECT USING (true);
+CREATE POLICY "profiles_insert_own" ON user_profiles FOR INSERT
+  WITH CHECK (id = requesting_user_id());
+CREATE POLICY "profiles_update_own" ON user_profiles FOR UPDATE
+  USING (id = requesting_user_id()) WITH CHECK (id = requesting_user_id());
+
+-- user_stats: public read (leaderboard). Users may only create their own
+-- empty row at signup; there is no UPDATE policy, so game results are only
+-- applied by update_user_stats_after_game (SECURITY DEFINER).
+CREATE POLICY "stats_select" ON user_stats FOR SELECT USING (true);
+CREATE POLICY "stats_insert_own" ON user_stats FOR INSERT
+  WITH CHECK (
+    user_id = requesting_user_id()
+    AND total_games = 0 AND games_won = 0 AND games_lost = 0 AND games_tied = 0
+    AND classic_games = 0 AND total_guesses = 0 AND best_guess_count IS NULL
+    AND current_streak = 0 AND longest_streak = 0
+  );
+
+-- user_bot_stats: own rows only; written by update_user_stats_after_game()
+CREATE POLICY "bot_stats_select_own" ON user_bot_stats FOR SELECT
+  USING (user_id = requesting_user_id());
+
+-- user_ratings: public read (leaderboard); written by update_ratings_after_game()
+CREATE POLICY "ratings_select" ON user_ratings FOR SELECT USING (true);
+
+-- user_game_history: public read like user_stats; written by record_game_history()
+CREATE POLICY "game_history_select" ON user_game_history FOR SELECT USING (true);
+
+-- game_rooms: readable by code (secrets live in game_secrets). Once both seats
+-- are taken, rooms with spectators = 'friends' are only readable (and only
+-- stream over realtime) to the players and their friends; open rooms stay
+-- readable so anyone with the code can join. Creating and updating rooms goes
+-- through the /api/rooms state machine (service role), so clients get no
+-- INSERT/UPDATE policies. Started rooms are kept as game history.
+CREATE POLICY "rooms_select" ON game_rooms FOR SELECT USING (
+  spectators = 'everyone'
+  OR player2_id IS NULL
+  OR player1_id = requesting_user_id()
+  OR player2_id = requesting_user_id()
+  OR EXISTS (
+    SELECT 1 FROM friendships f
+    WHERE f.user_id = requesting_user_id()
+      AND f.friend_id IN (game_rooms.player1_id, game_rooms.player2_id)
+  )
+);
+CREATE POLICY "rooms_delete_creator" ON game_rooms FOR DELETE
+  USING (player1_id = requesting_user_id() AND game_started = FALSE);
+
+-- game_invites: visible to sender and recipient; sender creates/cancels,
+-- recipient accepts/declines
+CREATE POLICY "invites_select_involved" ON game_invites FOR SELECT
+  USING (from_user_id = requesting_user_id() OR to_user_id = requesting_user_id());
+CREATE POLICY "invites_insert_sender" ON game_invites FOR INSERT
+  WITH CHECK (from_user_id = requesting_user_id());
+CREATE POLICY "invites_update_recipient" ON game_invites FOR UPDATE
+  USING (to_user_id = requesting_user_id()) WITH CHECK (to_user_id = requesting_user_id());
+CREATE POLICY "invites_delete_sender" ON game_invites FOR DELETE
+  USING (from_user_id = requesting_user_id());
+
+-- friend_requests: same shape as invites
+CREATE POLICY "friend_requests_select_involved" ON friend_requests FOR SELECT
+  USING (from_user_id = requesting_user_id() OR to_user_id = requesting_user_id());
+CREATE POLICY "friend_requests_insert_sender" ON friend_requests FOR INSERT
+  WITH CHECK (from_user_id = requesting_user_id());
+CREATE POLICY "friend_requests_update_recipient" ON friend_requests FOR UPDATE
+  USING (to_user_id = requesting_user_id()) WITH CHECK (to_user_id = requesting_user_id());
+CREATE POLICY "friend_requests_delete_sender" ON friend_requests FOR DELETE
+  USING (from_user_id = requesting_user_id());
+
+-- friendships: rows are created by handle_friend_request_acceptance
+-- (SECURITY DEFINER); either side may remove the friendship
+CREATE POLICY "friendships_select_own" ON friendships FOR SELECT
+  USING (user_id = requesting_user_id() OR friend_id = requesting_user_id());
+CREATE POLICY "friendships_delete_own" ON friendships FOR DELETE
+  USING (user_id = requesting_user_id() OR friend_id = requesting_user_id());
 
--- Simple open policies (app handles auth via Farcaster)
-CREATE POLICY "allow_all_profiles" ON user_profiles FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "allow_all_stats" ON user_stats FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "allow_all_rooms" ON game_rooms FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "allow_all_invites" ON game_invites FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "allow_all_friend_requests" ON friend_requests FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "allow_all_friendships" ON friendships FOR ALL USING (true) WITH CHECK (true);
+-- game_secrets intentionally has no policies: only the service role can access it
+
+-- matchmaking_queue: players see their own entry (for the realtime "matched"
+-- update); joining and leaving go through /api/rooms/queue
+CREATE POLICY "queue_select_own" ON matchmaking_queue FOR SELECT
+  USING (user_id = requesting_user_id());
 
 -- ============================================
 -- 4. FUNCTIONS & TRIGGERS
@@ -149,6 +374,88 @@ CREATE TRIGGER game_room_version_trigger
   FOR EACH ROW
   EXECUTE FUNCTION increment_game_room_version();
 
+-- Commitments are frozen once the game starts (commit-reveal integrity)
+CREATE OR REPLACE FUNCTION lock_game_room_commitments()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.game_started AND (
+    NEW.player1_commitment IS DISTINCT FROM OLD.player1_commitment OR
+    NEW.player2_commitment IS DISTINCT FROM OLD.player2_commitment
+  ) THEN
+    RAISE EXCEPTION 'Secrets cannot be changed after the game has started';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER game_room_commitment_lock_trigger
+  BEFORE UPDATE ON game_rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION lock_game_room_commitments();
+
+-- Reject any secret write once the room's game has started
+CREATE OR REPLACE FUNCTION lock_game_secrets()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM game_rooms
+    WHERE room_code = NEW.room_code AND game_started
+  ) THEN
+    RAISE EXCEPTION 'Secrets cannot be changed after the game has started';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER game_secrets_lock_trigger
+  BEFORE INSERT OR UPDATE ON game_secrets
+  FOR EACH ROW
+  EXECUTE FUNCTION lock_game_secrets();
+
+-- Stores a player's secret and publishes its commitment and ready flag in one
+-- transaction. The room row is locked first, so the game can't start between
+-- the two writes and leave a new secret behind an old commitment. Returns
+-- FALSE (and writes nothing) once the game has started.
+CREATE OR REPLACE FUNCTION set_player_secret(
+  p_room_code TEXT,
+  p_player_number INTEGER,
+  p_secret TEXT,
+  p_salt TEXT,
+  p_commitment TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_started BOOLEAN;
+BEGIN
+  SELECT game_started INTO v_started
+  FROM game_rooms WHERE room_code = p_room_code
+  FOR UPDATE;
+
+  IF v_started IS NULL OR v_started THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO game_secrets (room_code, player_number, secret, salt, updated_at)
+  VALUES (p_room_code, p_player_number, p_secret, p_salt, NOW())
+  ON CONFLICT (room_code, player_number) DO UPDATE SET
+    secret = EXCLUDED.secret,
+    salt = EXCLUDED.salt,
+    updated_at = EXCLUDED.updated_at;
+
+  UPDATE game_rooms SET
+    player1_ready = CASE WHEN p_player_number = 1 THEN TRUE ELSE player1_ready END,
+    player1_commitment = CASE WHEN p_player_number = 1 THEN p_commitment ELSE player1_commitment END,
+    player2_ready = CASE WHEN p_player_number = 2 THEN TRUE ELSE player2_ready END,
+    player2_commitment = CASE WHEN p_player_number = 2 THEN p_commitment ELSE player2_commitment END
+  WHERE room_code = p_room_code;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION set_player_secret(TEXT, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_player_secret(TEXT, INTEGER, TEXT, TEXT, TEXT) TO service_role;
+
 -- Auto-create bidirectional friendship when request is accepted
 CREATE OR REPLACE FUNCTION handle_friend_request_acceptance()
 RETURNS TRIGGER AS $$
@@ -175,14 +482,258 @@ CREATE TRIGGER friend_request_acceptance_trigger
 -- 5. STATS UPDATE FUNCTION
 -- ============================================
 
+-- Rating category of a time control. Same rule as getRatingCategory in
+-- lib/rating.ts: correspondence by mode, the rest by base + 20 x bonus seconds.
+CREATE OR REPLACE FUNCTION rating_category(p_time_control JSONB)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_time_control->>'mode' = 'correspondence' THEN 'correspondence'
+    WHEN (p_time_control->>'base')::INTEGER
+      + 20 * COALESCE((p_time_control->>'bonus')::INTEGER, 0) < 180 THEN 'bullet'
+    WHEN (p_time_control->>'base')::INTEGER
+      + 20 * COALESCE((p_time_control->>'bonus')::INTEGER, 0) < 600 THEN 'blitz'
+    ELSE 'rapid'
+  END
+$$ LANGUAGE sql IMMUTABLE;
+
+-- f(x) from step 5 of Glickman's Glicko-2 paper, whose root is the log of
+-- the squared new volatility
+CREATE OR REPLACE FUNCTION glicko2_volatility_f(
+  p_x DOUBLE PRECISION,
+  p_delta DOUBLE PRECISION,
+  p_phi DOUBLE PRECISION,
+  p_variance DOUBLE PRECISION,
+  p_a DOUBLE PRECISION,
+  p_tau DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT exp(p_x) * (p_delta ^ 2 - p_phi ^ 2 - p_variance - exp(p_x))
+      / (2 * (p_phi ^ 2 + p_variance + exp(p_x)) ^ 2)
+    - (p_x - p_a) / p_tau ^ 2
+$$ LANGUAGE sql IMMUTABLE;
+
+-- One Glicko-2 update for a single game (each game is its own rating
+-- period). p_score is 1 for a win, 0.5 for a tie and 0 for a loss.
+CREATE OR REPLACE FUNCTION glicko2_update(
+  p_rating DOUBLE PRECISION,
+  p_deviation DOUBLE PRECISION,
+  p_volatility DOUBLE PRECISION,
+  p_opponent_rating DOUBLE PRECISION,
+  p_opponent_deviation DOUBLE PRECISION,
+  p_score DOUBLE PRECISION,
+  OUT new_rating DOUBLE PRECISION,
+  OUT new_deviation DOUBLE PRECISION,
+  OUT new_volatility DOUBLE PRECISION
+) AS $$
+DECLARE
+  c_scale CONSTANT DOUBLE PRECISION := 173.7178;
+  c_tau CONSTANT DOUBLE PRECISION := 0.5; -- how fast volatility may change
+  c_epsilon CONSTANT DOUBLE PRECISION := 0.000001;
+  v_mu DOUBLE PRECISION := (p_rating - 1500) / c_scale;
+  v_phi DOUBLE PRECISION := p_deviation / c_scale;
+  v_opponent_mu DOUBLE PRECISION := (p_opponent_rating - 1500) / c_scale;
+  v_opponent_phi DOUBLE PRECISION := p_opponent_deviation / c_scale;
+  v_g DOUBLE PRECISION;
+  v_expected DOUBLE PRECISION;
+  v_variance DOUBLE PRECISION;
+  v_delta DOUBLE PRECISION;
+  v_a DOUBLE PRECISION;
+  v_low DOUBLE PRECISION;
+  v_high DOUBLE PRECISION;
+  v_mid DOUBLE PRECISION;
+  v_f_low DOUBLE PRECISION;
+  v_f_high DOUBLE PRECISION;
+  v_f_mid DOUBLE PRECISION;
+  v_k INTEGER := 1;
+  v_iterations INTEGER := 0;
+  v_sigma DOUBLE PRECISION;
+  v_phi_star DOUBLE PRECISION;
+  v_phi_new DOUBLE PRECISION;
+BEGIN
+  v_g := 1 / sqrt(1 + 3 * v_opponent_phi ^ 2 / pi() ^ 2);
+  v_expected := 1 / (1 + exp(-v_g * (v_mu - v_opponent_mu)));
+  v_variance := 1 / (v_g ^ 2 * v_expected * (1 - v_expected));
+  v_delta := v_variance * v_g * (p_score - v_expected);
+
+  -- New volatility: solve f(x) = 0 with the Illinois algorithm
+  v_a := ln(p_volatility ^ 2);
+  v_low := v_a;
+  IF v_delta ^ 2 > v_phi ^ 2 + v_variance THEN
+    v_high := ln(v_delta ^ 2 - v_phi ^ 2 - v_variance);
+  ELSE
+    WHILE glicko2_volatility_f(v_a - v_k * c_tau, v_delta, v_phi, v_variance, v_a, c_tau) < 0 LOOP
+      v_k := v_k + 1;
+    END LOOP;
+    v_high := v_a - v_k * c_tau;
+  END IF;
+
+  v_f_low := glicko2_volatility_f(v_low, v_delta, v_phi, v_variance, v_a, c_tau);
+  v_f_high := glicko2_volatility_f(v_high, v_delta, v_phi, v_variance, v_a, c_tau);
+  WHILE abs(v_high - v_low) > c_epsilon AND v_iterations < 100 LOOP
+    v_mid := v_low + (v_low - v_high) * v_f_low / (v_f_high - v_f_low);
+    v_f_mid := glicko2_volatility_f(v_mid, v_delta, v_phi, v_variance, v_a, c_tau);
+    IF v_f_mid * v_f_high <= 0 THEN
+      v_low := v_high;
+      v_f_low := v_f_high;
+    ELSE
+      v_f_low := v_f_low / 2;
+    END IF;
+    v_high := v_mid;
+    v_f_high := v_f_mid;
+    v_iterations := v_iterations + 1;
+  END LOOP;
+  v_sigma := exp(v_low / 2);
+
+  v_phi_star := sqrt(v_phi ^ 2 + v_sigma ^ 2);
+  v_phi_new := 1 / sqrt(1 / v_phi_star ^ 2 + 1 / v_variance);
+
+  new_rating := 1500 + c_scale * (v_mu + v_phi_new ^ 2 * v_g * (p_score - v_expected));
+  -- A new player's deviation never grows past the starting value
+  new_deviation := LEAST(c_scale * v_phi_new, 350);
+  new_volatility := v_sigma;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Applies a finished rated game to both players' ratings in the room's
+-- category. Called from update_user_stats_after_game(); claiming the room's
+-- ratings_applied flag makes any repeated call a no-op.
+CREATE OR REPLACE FUNCTION update_ratings_after_game(p_room_code TEXT)
+RETURNS void AS $$
+DECLARE
+  v_room RECORD;
+  v_category TEXT;
+  v_player1 RECORD;
+  v_player2 RECORD;
+  v_new1 RECORD;
+  v_new2 RECORD;
+  v_score1 DOUBLE PRECISION;
+BEGIN
+  UPDATE game_rooms SET ratings_applied = TRUE
+  WHERE room_code = p_room_code
+    AND NOT ratings_applied
+    AND rated
+    AND winner IS NOT NULL
+    AND bot_level IS NULL
+    AND player1_id IS NOT NULL AND player2_id IS NOT NULL
+  RETURNING * INTO v_room;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_category := rating_category(v_room.time_control);
+  v_score1 := CASE v_room.winner WHEN '1' THEN 1 WHEN '2' THEN 0 ELSE 0.5 END;
+
+  INSERT INTO user_ratings (user_id, category)
+  VALUES (v_room.player1_id, v_category), (v_room.player2_id, v_category)
+  ON CONFLICT (user_id, category) DO NOTHING;
+
+  -- Lock both rows in a fixed order so concurrent games can't deadlock
+  PERFORM 1 FROM user_ratings
+  WHERE category = v_category
+    AND user_id IN (v_room.player1_id, v_room.player2_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT * INTO v_player1 FROM user_ratings
+  WHERE user_id = v_room.player1_id AND category = v_category;
+  SELECT * INTO v_player2 FROM user_ratings
+  WHERE user_id = v_room.player2_id AND category = v_category;
+
+  -- Both updates use the ratings from before the game
+  SELECT * INTO v_new1 FROM glicko2_update(
+    v_player1.rating, v_player1.deviation, v_player1.volatility,
+    v_player2.rating, v_player2.deviation, v_score1
+  );
+  SELECT * INTO v_new2 FROM glicko2_update(
+    v_player2.rating, v_player2.deviation, v_player2.volatility,
+    v_player1.rating, v_player1.deviation, 1 - v_score1
+  );
+
+  UPDATE user_ratings SET
+    rating = v_new1.new_rating,
+    deviation = v_new1.new_deviation,
+    volatility = v_new1.new_volatility,
+    games_played = games_played + 1,
+    updated_at = NOW()
+  WHERE user_id = v_room.player1_id AND category = v_category;
+
+  UPDATE user_ratings SET
+    rating = v_new2.new_rating,
+    deviation = v_new2.new_deviation,
+    volatility = v_new2.new_volatility,
+    games_played = games_played + 1,
+    updated_at = NOW()
+  WHERE user_id = v_room.player2_id AND category = v_category;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION update_ratings_after_game(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION update_ratings_after_game(TEXT) TO service_role;
+
+-- Snapshots both players' stats (and ratings, for rated games) after a
+-- finished two-player game into user_game_history. Called from
+-- update_user_stats_after_game() once stats and ratings are updated.
+CREATE OR REPLACE FUNCTION record_game_history(p_room_code TEXT)
+RETURNS void AS $$
+DECLARE
+  v_room RECORD;
+  v_category TEXT;
+  v_classic BOOLEAN;
+BEGIN
+  SELECT * INTO v_room FROM game_rooms WHERE room_code = p_room_code;
+
+  IF v_room.id IS NULL OR v_room.winner IS NULL OR v_room.bot_level IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  v_category := rating_category(v_room.time_control);
+  v_classic := (v_room.rules->>'codeLength')::INTEGER = 4
+    AND NOT (v_room.rules->>'allowZero')::BOOLEAN
+    AND NOT (v_room.rules->>'allowRepeats')::BOOLEAN
+    AND COALESCE(v_room.rules->>'feedback', 'guess4') = 'guess4';
+
+  INSERT INTO user_game_history (
+    user_id, room_code, result, rated, category, guess_count,
+    rating, rating_deviation, total_games, games_won
+  )
+  SELECT
+    seat.user_id,
+    p_room_code,
+    CASE WHEN v_room.winner = 'tie' THEN 'tie'
+         WHEN v_room.winner = seat.player_number THEN 'won'
+         ELSE 'lost' END,
+    v_room.rated,
+    v_category,
+    CASE WHEN v_classic THEN jsonb_array_length(seat.guesses) ELSE NULL END,
+    CASE WHEN v_room.rated THEN r.rating ELSE NULL END,
+    CASE WHEN v_room.rated THEN r.deviation ELSE NULL END,
+    s.total_games,
+    s.games_won
+  FROM (VALUES
+    (v_room.player1_id, '1', v_room.player1_guesses),
+    (v_room.player2_id, '2', v_room.player2_guesses)
+  ) AS seat(user_id, player_number, guesses)
+  JOIN user_stats s ON s.user_id = seat.user_id
+  LEFT JOIN user_ratings r ON r.user_id = seat.user_id AND r.category = v_category
+  WHERE seat.user_id IS NOT NULL
+  ON CONFLICT (user_id, room_code) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_game_history(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_game_history(TEXT) TO service_role;
+
 CREATE OR REPLACE FUNCTION update_user_stats_after_game(p_room_code TEXT)
 RETURNS void AS $$
 DECLARE
   v_room RECORD;
   v_player1_guesses INTEGER;
   v_player2_guesses INTEGER;
+  v_classic BOOLEAN;
 BEGIN
-  SELECT * INTO v_room FROM game_rooms WHERE room_code = p_room_code;
+  -- Locks the room so concurrent calls for the same game record it once
+  SELECT * INTO v_room FROM game_rooms WHERE room_code = p_room_code FOR UPDATE;
 
   IF v_room.id IS NULL OR v_room.winner IS NULL THEN
     RETURN;
@@ -192,19 +743,54 @@ BEGIN
     RETURN;
   END IF;
 
-  v_player1_guesses := jsonb_array_length(v_room.player1_guesses);
-  v_player2_guesses := jsonb_array_length(v_room.player2_guesses);
+  -- Games against the computer only update the human's per-level bot stats
+  IF v_room.bot_level IS NOT NULL THEN
+    v_player1_guesses := jsonb_array_length(v_room.player1_guesses);
+
+    INSERT INTO user_bot_stats (user_id, bot_level, games_played, games_won, games_lost, games_tied, best_guess_count, last_played_at)
+    VALUES (
+      v_room.player1_id, v_room.bot_level, 1,
+      CASE WHEN v_room.winner = '1' THEN 1 ELSE 0 END,
+      CASE WHEN v_room.winner = '2' THEN 1 ELSE 0 END,
+      CASE WHEN v_room.winner = 'tie' THEN 1 ELSE 0 END,
+      CASE WHEN v_room.winner = '1' THEN v_player1_guesses ELSE NULL END,
+      NOW()
+    )
+    ON CONFLICT (user_id, bot_level) DO UPDATE SET
+      games_played = user_bot_stats.games_played + 1,
+      games_won = user_bot_stats.games_won + CASE WHEN v_room.winner = '1' THEN 1 ELSE 0 END,
+      games_lost = user_bot_stats.games_lost + CASE WHEN v_room.winner = '2' THEN 1 ELSE 0 END,
+      games_tied = user_bot_stats.games_tied + CASE WHEN v_room.winner = 'tie' THEN 1 ELSE 0 END,
+      best_guess_count = CASE
+        WHEN v_room.winner = '1' THEN LEAST(COALESCE(user_bot_stats.best_guess_count, v_player1_guesses), v_player1_guesses)
+        ELSE user_bot_stats.best_guess_count END,
+      last_played_at = NOW();
+
+    UPDATE game_rooms SET finished_at = NOW() WHERE room_code = p_room_code;
+    RETURN;
+  END IF;
+
+  -- Wins, losses and streaks count for every variant; guess counts only for
+  -- the default rules
+  v_classic := (v_room.rules->>'codeLength')::INTEGER = 4
+    AND NOT (v_room.rules->>'allowZero')::BOOLEAN
+    AND NOT (v_room.rules->>'allowRepeats')::BOOLEAN
+    AND COALESCE(v_room.rules->>'feedback', 'guess4') = 'guess4';
+
+  v_player1_guesses := CASE WHEN v_classic THEN jsonb_array_length(v_room.player1_guesses) ELSE 0 END;
+  v_player2_guesses := CASE WHEN v_classic THEN jsonb_array_length(v_room.player2_guesses) ELSE 0 END;
 
   -- Update player 1 stats
   IF v_room.player1_id IS NOT NULL THEN
-    INSERT INTO user_stats (user_id, total_games, games_won, games_lost, games_tied, total_guesses, best_guess_count, current_streak, longest_streak, last_played_at)
+    INSERT INTO user_stats (user_id, total_games, games_won, games_lost, games_tied, classic_games, total_guesses, best_guess_count, current_streak, longest_streak, last_played_at)
     VALUES (
       v_room.player1_id, 1,
       CASE WHEN v_room.winner = '1' THEN 1 ELSE 0 END,
       CASE WHEN v_room.winner = '2' THEN 1 ELSE 0 END,
       CASE WHEN v_room.winner = 'tie' THEN 1 ELSE 0 END,
+      CASE WHEN v_classic THEN 1 ELSE 0 END,
       v_player1_guesses,
-      CASE WHEN v_room.winner = '1' THEN v_player1_guesses ELSE NULL END,
+      CASE WHEN v_room.winner = '1' AND v_classic THEN v_player1_guesses ELSE NULL END,
       CASE WHEN v_room.winner = '1' THEN 1 ELSE 0 END,
       CASE WHEN v_room.winner = '1' THEN 1 ELSE 0 END,
       NOW()
@@ -214,9 +800,10 @@ BEGIN
       games_won = user_stats.games_won + CASE WHEN v_room.winner = '1' THEN 1 ELSE 0 END,
       games_lost = user_stats.games_lost + CASE WHEN v_room.winner = '2' THEN 1 ELSE 0 END,
       games_tied = user_stats.games_tied + CASE WHEN v_room.winner = 'tie' THEN 1 ELSE 0 END,
+      classic_games = user_stats.classic_games + CASE WHEN v_classic THEN 1 ELSE 0 END,
       total_guesses = user_stats.total_guesses + v_player1_guesses,
       best_guess_count = CASE
-        WHEN v_room.winner = '1' THEN
+        WHEN v_room.winner = '1' AND v_classic THEN
           CASE WHEN user_stats.best_guess_count IS NULL THEN v_player1_guesses
                WHEN v_player1_guesses < user_stats.best_guess_count THEN v_player1_guesses
                ELSE user_stats.best_guess_count END
@@ -229,14 +816,15 @@ BEGIN
 
   -- Update player 2 stats
   IF v_room.player2_id IS NOT NULL THEN
-    INSERT INTO user_stats (user_id, total_games, games_won, games_lost, games_tied, total_guesses, best_guess_count, current_streak, longest_streak, last_played_at)
+    INSERT INTO user_stats (user_id, total_games, games_won, games_lost, games_tied, classic_games, total_guesses, best_guess_count, current_streak, longest_streak, last_played_at)
     VALUES (
       v_room.player2_id, 1,
       CASE WHEN v_room.winner = '2' THEN 1 ELSE 0 END,
       CASE WHEN v_room.winner = '1' THEN 1 ELSE 0 END,
       CASE WHEN v_room.winner = 'tie' THEN 1 ELSE 0 END,
+      CASE WHEN v_classic THEN 1 ELSE 0 END,
       v_player2_guesses,
-      CASE WHEN v_room.winner = '2' THEN v_player2_guesses ELSE NULL END,
+      CASE WHEN v_room.winner = '2' AND v_classic THEN v_player2_guesses ELSE NULL END,
       CASE WHEN v_room.winner = '2' THEN 1 ELSE 0 END,
       CASE WHEN v_room.winner = '2' THEN 1 ELSE 0 END,
       NOW()
@@ -246,9 +834,10 @@ BEGIN
       games_won = user_stats.games_won + CASE WHEN v_room.winner = '2' THEN 1 ELSE 0 END,
       games_lost = user_stats.games_lost + CASE WHEN v_room.winner = '1' THEN 1 ELSE 0 END,
       games_tied = user_stats.games_tied + CASE WHEN v_room.winner = 'tie' THEN 1 ELSE 0 END,
+      classic_games = user_stats.classic_games + CASE WHEN v_classic THEN 1 ELSE 0 END,
       total_guesses = user_stats.total_guesses + v_player2_guesses,
       best_guess_count = CASE
-        WHEN v_room.winner = '2' THEN
+        WHEN v_room.winner = '2' AND v_classic THEN
           CASE WHEN user_stats.best_guess_count IS NULL THEN v_player2_guesses
                WHEN v_player2_guesses < user_stats.best_guess_count THEN v_player2_guesses
                ELSE user_stats.best_guess_count END
@@ -259,17 +848,119 @@ BEGIN
       updated_at = NOW();
   END IF;
 
+  -- Rated games also move both players' ratings
+  IF v_room.rated THEN
+    PERFORM update_ratings_after_game(p_room_code);
+  END IF;
+
+  PERFORM record_game_history(p_room_code);
+
   UPDATE game_rooms SET finished_at = NOW() WHERE room_code = p_room_code;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Only the server (service role) records results, from recordGameResult()
+REVOKE EXECUTE ON FUNCTION update_user_stats_after_game(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION update_user_stats_after_game(TEXT) TO service_role;
+
+-- Ends every game whose player to move has run out of time: the opponent
+-- wins, the flagged clock is zeroed and stats are recorded. Same rule as
+-- expireClock in lib/gameMachine.ts, for rooms no client is touching (e.g.
+-- the flagged player closed the tab). Clients see the result over realtime.
+CREATE OR REPLACE FUNCTION resolve_flagged_rooms()
+RETURNS INTEGER AS $$
+DECLARE
+  v_room RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_room IN
+    UPDATE game_rooms SET
+      winner = CASE WHEN current_turn_player = 1 THEN '2' ELSE '1' END,
+      player1_time_remaining = CASE WHEN current_turn_player = 1 THEN 0 ELSE player1_time_remaining END,
+      player2_time_remaining = CASE WHEN current_turn_player = 2 THEN 0 ELSE player2_time_remaining END,
+      current_turn_player = NULL,
+      turn_started_at = NULL
+    WHERE game_started = TRUE
+      AND winner IS NULL
+      AND current_turn_player IS NOT NULL
+      AND turn_started_at IS NOT NULL
+      AND turn_started_at + make_interval(secs => COALESCE(
+        CASE WHEN current_turn_player = 1 THEN player1_time_remaining ELSE player2_time_remaining END,
+        300
+      )) <= NOW()
+    RETURNING room_code
+  LOOP
+    PERFORM update_user_stats_after_game(v_room.room_code);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION resolve_flagged_rooms() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_flagged_rooms() TO service_role;
+
+-- Claim the longest-waiting live entry in a matchmaking queue for p_user_id,
+-- removing the caller's own entry. Returns the opponent's id, or NULL when
+-- nobody else is waiting (or the caller was claimed by someone else first).
+-- The advisory lock serializes pairing per queue so two players can't claim
+-- each other at the same time. Only the /api/rooms/queue route (service role)
+-- may call it, since it acts for whichever p_user_id it is given.
+CREATE OR REPLACE FUNCTION claim_queue_opponent(
+  p_user_id TEXT,
+  p_queue_key TEXT,
+  p_live_after TIMESTAMP WITH TIME ZONE
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_opponent TEXT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('matchmaking:' || p_queue_key));
+
+  IF EXISTS (
+    SELECT 1 FROM matchmaking_queue WHERE user_id = p_user_id AND matched
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT user_id INTO v_opponent
+  FROM matchmaking_queue
+  WHERE queue_key = p_queue_key
+    AND user_id <> p_user_id
+    AND NOT matched
+    AND last_seen_at > p_live_after
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_opponent IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE matchmaking_queue SET matched = TRUE WHERE user_id = v_opponent;
+  DELETE FROM matchmaking_queue WHERE user_id = p_user_id;
+  RETURN v_opponent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION claim_queue_opponent(TEXT, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_queue_opponent(TEXT, TEXT, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+-- Check the clocks every minute (requires the pg_cron extension, enabled under
+-- Database > Extensions)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+SELECT cron.schedule('resolve-flagged-rooms', '* * * * *', 'SELECT resolve_flagged_rooms()');
+
 -- ============================================
 -- 6. LEADERBOARD FUNCTION
 -- ============================================
 
+-- p_order_by 'rating' ranks the players rated in p_category, settled
+-- ratings (deviation <= 110, see lib/rating.ts) ahead of provisional ones
 CREATE OR REPLACE FUNCTION get_leaderboard(
   p_limit INTEGER DEFAULT 10,
-  p_order_by TEXT DEFAULT 'games_won'
+  p_order_by TEXT DEFAULT 'games_won',
+  p_category TEXT DEFAULT 'blitz'
 )
 RETURNS TABLE (
   user_id TEXT,
@@ -284,7 +975,9 @@ RETURNS TABLE (
   best_guess_count INTEGER,
   current_streak INTEGER,
   longest_streak INTEGER,
-  avg_guesses NUMERIC
+  avg_guesses NUMERIC,
+  rating DOUBLE PRECISION,
+  rating_deviation DOUBLE PRECISION
 ) AS $$
 BEGIN
   RETURN QUERY
@@ -301,11 +994,17 @@ BEGIN
     s.best_guess_count,
     s.current_streak,
     s.longest_streak,
-    CASE WHEN s.total_games > 0 THEN ROUND(s.total_guesses::NUMERIC / s.total_games, 1) ELSE 0 END as avg_guesses
+    CASE WHEN s.classic_games > 0 THEN ROUND(s.total_guesses::NUMERIC / s.classic_games, 1) ELSE 0 END as avg_guesses,
+    r.rating,
+    r.deviation as rating_deviation
   FROM user_stats s
   JOIN user_profiles p ON s.user_id = p.id
+  LEFT JOIN user_ratings r ON r.user_id = s.user_id AND r.category = p_category
   WHERE s.total_games > 0
+    AND (p_order_by <> 'rating' OR r.user_id IS NOT NULL)
   ORDER BY
+    CASE WHEN p_order_by = 'rating' THEN r.deviation > 110 ELSE FALSE END,
+    CASE WHEN p_order_by = 'rating' THEN r.rating ELSE 0 END DESC,
     CASE
       WHEN p_order_by = 'games_won' THEN s.games_won
       WHEN p_order_by = 'longest_streak' THEN s.longest_streak
@@ -324,6 +1023,17 @@ $$ LANGUAGE plpgsql SECURITY DEFINER;
 -- 7. REALTIME (Enable for game updates)
 -- ============================================
 
--- Enable realtime for game_rooms and game_invites
+-- Enable realtime for game_rooms, game_invites and matchmaking_queue
 -- Go to Supabase Dashboard > Database > Replication
--- And enable realtime for: game_rooms, game_invites
+-- And enable realtime for: game_rooms, game_invites, matchmaking_queue
+
+-- ============================================
+-- 8. BOT PROFILES
+-- ============================================
+
+-- Computer opponents sit in the player 2 seat under these ids (see lib/bot.ts)
+INSERT INTO user_profiles (id, username, display_name) VALUES
+  ('bot-easy', 'guess4_bot_easy', 'Bot (Easy)'),
+  ('bot-medium', 'guess4_bot_medium', 'Bot (Medium)'),
+  ('bot-hard', 'guess4_bot_hard', 'Bot (Hard)')
+ON CONFLICT (id) DO NOTHING;
@@ -2,6 +2,7 @@
 
 import { useState, useCallback } from "react";
 import sdk from "@farcaster/miniapp-sdk";
+import { SESSION_TOKEN_KEY } from "@/utils/supabase/client";
 
 export interface FarcasterUser {
   fid: string;
@@ -54,7 +55,7 @@ export function useFarcasterAuth(): UseFarcasterAuthReturn {
 
       const data = await response.json();
 
-      if (!data.success || !data.user?.fid) {
+      if (!data.success || !data.user?.fid || !data.session?.accessToken) {
         throw new Error("Invalid authentication response");
       }
 
@@ -68,6 +69,7 @@ export function useFarcasterAuth(): UseFarcasterAuthReturn {
 
       // Store token for future requests
       localStorage.setItem("farcaster_token", result.token);
+      localStorage.setItem(SESSION_TOKEN_KEY, data.session.accessToken);
       localStorage.setItem("farcaster_user", JSON.stringify(user));
 
       return user;
@@ -84,6 +86,7 @@ export function useFarcasterAuth(): UseFarcasterAuthReturn {
   const signOut = useCallback(() => {
     localStorage.removeItem("farcaster_token");
     localStorage.removeItem("farcaster_user");
+    localStorage.removeItem(SESSION_TOKEN_KEY);
   }, []);
 
   return {
@@ -2,37 +2,45 @@ import { useState, useCallback } from "react";
 import {
   createGameRoom,
   joinGameRoom,
+  type CreateRoomOptions,
   checkRoomExists,
   setPlayerSecret,
   submitGuess,
-  type Guess,
 } from "@/lib/gameRoom";
+import { formatFeedback, isSolved, type GameRules } from "@/lib/rules";
 import toast from "react-hot-toast";
 
 export function useCreateGameRoom() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const create = useCallback(async (userId: string, timeLimit?: number) => {
-    console.log("🎮 useCreateGameRoom: Creating room for user:", userId, "with time limit:", timeLimit);
-    setLoading(true);
-    setError(null);
+  const create = useCallback(
+    async (options: CreateRoomOptions = {}) => {
+      console.log("🎮 useCreateGameRoom: Creating room:", options);
+      setLoading(true);
+      setError(null);
 
-    try {
-      const roomCode = await createGameRoom(userId, timeLimit);
-      console.log("✅ useCreateGameRoom: Room created:", roomCode);
-      toast.success("Game room created! Share the code with your friend.");
-      return roomCode;
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to create room";
-      console.error("❌ useCreateGameRoom: Error:", err);
-      setError(message);
-      toast.error(message);
-      throw err;
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+      try {
+        const roomCode = await createGameRoom(options);
+        console.log("✅ useCreateGameRoom: Room created:", roomCode);
+        toast.success(
+          options.bot
+            ? "Bot game created! Set your secret number."
+            : "Game room created! Share the code with your friend."
+        );
+        return roomCode;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to create room";
+        console.error("❌ useCreateGameRoom: Error:", err);
+        setError(message);
+        toast.error(message);
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    []
+  );
 
   return { create, loading, error };
 }
@@ -41,8 +49,8 @@ export function useJoinGameRoom() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const join = useCallback(async (roomCode: string, userId: string) => {
-    console.log("🎮 useJoinGameRoom: Joining room:", { roomCode, userId });
+  const join = useCallback(async (roomCode: string) => {
+    console.log("🎮 useJoinGameRoom: Joining room:", roomCode);
     setLoading(true);
     setError(null);
 
@@ -57,7 +65,7 @@ export function useJoinGameRoom() {
       }
 
       // Try to join
-      const success = await joinGameRoom(roomCode, userId);
+      const success = await joinGameRoom(roomCode);
 
       if (!success) {
         const msg = "Unable to join room. It may be full or no longer available.";
@@ -88,13 +96,13 @@ export function useSetSecret() {
   const [error, setError] = useState<string | null>(null);
 
   const setSecret = useCallback(
-    async (roomCode: string, playerNumber: 1 | 2, secret: string) => {
-      console.log("🎮 useSetSecret: Setting secret for player", playerNumber);
+    async (roomCode: string, secret: string) => {
+      console.log("🎮 useSetSecret: Setting secret for room", roomCode);
       setLoading(true);
       setError(null);
 
       try {
-        await setPlayerSecret(roomCode, playerNumber, secret);
+        await setPlayerSecret(roomCode, secret);
         console.log("✅ useSetSecret: Secret set successfully");
         toast.success("Secret number set! Waiting for opponent...");
         return true;
@@ -119,28 +127,21 @@ export function useSubmitGuess() {
   const [error, setError] = useState<string | null>(null);
 
   const submit = useCallback(
-    async (roomCode: string, playerNumber: 1 | 2, guess: Guess) => {
-      console.log("🎮 useSubmitGuess: Submitting guess:", guess.number);
+    async (roomCode: string, guessNumber: string, rules: GameRules) => {
+      console.log("🎮 useSubmitGuess: Submitting guess:", guessNumber);
       setLoading(true);
       setError(null);
 
       try {
-        const success = await submitGuess(roomCode, playerNumber, guess);
-
-        if (!success) {
-          toast.error("Turn changed or conflict detected. Please try again.");
-          return false;
-        }
+        const { guess } = await submitGuess(roomCode, guessNumber);
 
         console.log("✅ useSubmitGuess: Guess submitted successfully");
 
         // Show feedback toast
-        if (guess.correctPositions === 4) {
+        if (isSolved(guess)) {
           toast.success("You guessed it! You win!");
         } else {
-          toast.success(
-            `${guess.correctDigits} digits, ${guess.correctPositions} positions`
-          );
+          toast.success(formatFeedback(guess, rules));
         }
         return true;
       } catch (err) {
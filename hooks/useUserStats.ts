@@ -1,5 +1,11 @@
 import { useState, useEffect, useCallback } from "react";
-import { getUserStats, getLeaderboard, type UserStats } from "@/lib/auth";
+import {
+  getUserStats,
+  getLeaderboard,
+  type LeaderboardOrder,
+  type UserStats,
+} from "@/lib/auth";
+import type { RatingCategory } from "@/lib/rating";
 import toast from "react-hot-toast";
 
 interface LeaderboardEntry {
@@ -13,6 +19,8 @@ interface LeaderboardEntry {
   win_rate: number;
   best_guess_count: number | null;
   longest_streak: number;
+  rating: number | null; // in the requested category, null if unrated
+  rating_deviation: number | null;
 }
 
 export function useUserStats(userId: string | undefined) {
@@ -52,20 +60,25 @@ export function useUserStats(userId: string | undefined) {
 }
 
 export function useLeaderboard(
-  orderBy: "games_won" | "win_rate" | "longest_streak" = "games_won",
-  limit: number = 10
+  orderBy: LeaderboardOrder = "games_won",
+  limit: number = 10,
+  category: RatingCategory = "blitz"
 ) {
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const fetchLeaderboard = useCallback(async () => {
-    console.log("🏆 useLeaderboard: Fetching leaderboard:", { orderBy, limit });
+    console.log("🏆 useLeaderboard: Fetching leaderboard:", {
+      orderBy,
+      limit,
+      category,
+    });
     setLoading(true);
     setError(null);
 
     try {
-      const data = await getLeaderboard(orderBy, limit);
+      const data = await getLeaderboard(orderBy, limit, category);
       console.log("✅ useLeaderboard: Leaderboard fetched:", data.length, "entries");
       setLeaderboard(data);
     } catch (err) {
@@ -76,7 +89,7 @@ export function useLeaderboard(
     } finally {
       setLoading(false);
     }
-  }, [orderBy, limit]);
+  }, [orderBy, limit, category]);
 
   useEffect(() => {
     fetchLeaderboard();
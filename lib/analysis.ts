@@ -0,0 +1,55 @@
+import type { GameRules, Guess } from "@/lib/rules";
+import { compareWithBestGuess, getAllCodes, isConsistent } from "@/lib/solver";
+
+// Post-game review of one player's guesses, built from the stored guess list.
+// Replays the guesses in order, narrowing the candidate set after each one and
+// comparing it with what the solver would have played in the same position.
+
+// Played guesses within this many bits of the solver's pick count as best moves
+const BEST_MOVE_TOLERANCE = 0.05;
+
+export interface GuessReview {
+  guess: Guess;
+  candidatesBefore: number;
+  candidatesAfter: number;
+  entropy: number; // bits expected from the guess
+  bestGuess: string; // solver's highest-information candidate
+  bestEntropy: number;
+  isBestMove: boolean;
+  // Could not have been the secret given the earlier feedback
+  isBlunder: boolean;
+}
+
+export const reviewGuesses = (
+  guesses: Guess[],
+  rules: GameRules,
+  random: () => number = Math.random
+): GuessReview[] => {
+  // Narrowed in place: on the larger variants this starts at a million codes
+  const candidates = getAllCodes(rules);
+
+  return guesses.map((guess, index) => {
+    const comparison = compareWithBestGuess(
+      guess.number,
+      candidates,
+      rules,
+      random
+    );
+    const candidatesBefore = candidates.length;
+    let kept = 0;
+    for (const code of candidates) {
+      if (isConsistent(code, [guess], rules)) candidates[kept++] = code;
+    }
+    candidates.length = kept;
+
+    return {
+      guess,
+      candidatesBefore,
+      candidatesAfter: candidates.length,
+      ...comparison,
+      isBestMove:
+        comparison.entropy >= comparison.bestEntropy - BEST_MOVE_TOLERANCE,
+      isBlunder: !isConsistent(guess.number, guesses.slice(0, index), rules),
+    };
+  });
+};
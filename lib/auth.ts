@@ -1,4 +1,6 @@
 import { createClient } from "@/utils/supabase/client";
+import type { BotLevel } from "@/lib/bot";
+import type { RatingCategory } from "@/lib/rating";
 
 export interface UserProfile {
   id: string;
@@ -14,6 +16,7 @@ export interface UserStats {
   games_won: number;
   games_lost: number;
   games_tied: number;
+  classic_games: number; // games counted in total_guesses / best_guess_count
   total_guesses: number;
   best_guess_count: number | null;
   current_streak: number;
@@ -21,6 +24,34 @@ export interface UserStats {
   last_played_at: string | null;
 }
 
+export interface BotStats {
+  user_id: string;
+  bot_level: BotLevel;
+  games_played: number;
+  games_won: number;
+  games_lost: number;
+  games_tied: number;
+  best_guess_count: number | null;
+  last_played_at: string | null;
+}
+
+// Glicko-2 rating in one time-control category (see lib/rating.ts)
+export interface PlayerRating {
+  user_id: string;
+  category: RatingCategory;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  games_played: number;
+  updated_at: string;
+}
+
+export type LeaderboardOrder =
+  | "games_won"
+  | "win_rate"
+  | "longest_streak"
+  | "rating";
+
 // Get or create user profile (for Farcaster auth)
 export const getOrCreateProfile = async (
   fid: string,
@@ -159,6 +190,40 @@ export const getUserStats = async (
   return data;
 };
 
+// Get a user's results against the computer, one row per bot level played
+export const getUserBotStats = async (userId: string): Promise<BotStats[]> => {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("user_bot_stats")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error fetching bot stats:", error);
+    throw new Error(`Failed to fetch bot stats: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+// Get a user's ratings, one row per category with a rated game
+export const getUserRatings = async (
+  userId: string
+): Promise<PlayerRating[]> => {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("user_ratings")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error fetching ratings:", error);
+    throw new Error(`Failed to fetch ratings: ${error.message}`);
+  }
+
+  return data || [];
+};
+
 // Search users by username
 export const searchUsers = async (query: string): Promise<UserProfile[]> => {
   const supabase = createClient();
@@ -208,15 +273,17 @@ export const isUsernameAvailable = async (
   return !data && error?.code === "PGRST116";
 };
 
-// Get leaderboard
+// Get leaderboard. Ordering by rating lists the players rated in `category`.
 export const getLeaderboard = async (
-  orderBy: "games_won" | "win_rate" | "longest_streak" = "games_won",
-  limit: number = 10
+  orderBy: LeaderboardOrder = "games_won",
+  limit: number = 10,
+  category: RatingCategory = "blitz"
 ) => {
   const supabase = createClient();
   const { data, error } = await supabase.rpc("get_leaderboard", {
     p_limit: limit,
     p_order_by: orderBy,
+    p_category: category,
   });
 
   if (error) {
@@ -0,0 +1,66 @@
+import { generateSecret, type GameRules, type Guess } from "@/lib/rules";
+import {
+  getCandidates,
+  pickConsistentGuess,
+  pickEntropyGuess,
+} from "@/lib/solver";
+
+// Computer opponent. A bot always sits in the player 2 seat under its own
+// user_profiles row (see database/schema.sql), so bot rooms use the normal
+// turn flow; /api/rooms/:code/guess plays the bot's reply to each guess.
+
+export type BotLevel = "easy" | "medium" | "hard";
+
+export const BOT_LEVELS: { level: BotLevel; label: string; description: string }[] = [
+  { level: "easy", label: "Easy", description: "Random guesses that fit its last two clues" },
+  { level: "medium", label: "Medium", description: "Only guesses codes that could still be right" },
+  { level: "hard", label: "Hard", description: "Picks the most informative possible code" },
+];
+
+// user_profiles ids seeded for each bot
+export const BOT_USER_IDS: Record<BotLevel, string> = {
+  easy: "bot-easy",
+  medium: "bot-medium",
+  hard: "bot-hard",
+};
+
+// Simulated think time charged to the bot's clock for each move
+export const BOT_THINK_MS: Record<BotLevel, number> = {
+  easy: 2000,
+  medium: 3000,
+  hard: 4000,
+};
+
+export const isBotLevel = (value: unknown): value is BotLevel =>
+  value === "easy" || value === "medium" || value === "hard";
+
+export const createBotSecret = (
+  rules: GameRules,
+  random: () => number = Math.random
+): string => generateSecret(rules, random);
+
+// Easy only remembers its last few guesses, so it plays codes consistent with
+// recent feedback but often repeats mistakes from earlier in the game
+const EASY_MEMORY = 2;
+
+// The bot's next guess given its own guesses so far (with feedback)
+export const chooseBotGuess = (
+  level: BotLevel,
+  rules: GameRules,
+  guesses: Guess[],
+  random: () => number = Math.random
+): string => {
+  const remembered = level === "easy" ? guesses.slice(-EASY_MEMORY) : guesses;
+  const previous = new Set(guesses.map((g) => g.number));
+  const candidates = getCandidates(rules, remembered).filter(
+    (code) => !previous.has(code)
+  );
+  if (candidates.length === 0) {
+    // Only possible if the recorded feedback is inconsistent
+    return generateSecret(rules, random);
+  }
+
+  return level === "hard"
+    ? pickEntropyGuess(candidates, rules, random)
+    : pickConsistentGuess(candidates, random);
+};
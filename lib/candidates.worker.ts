@@ -0,0 +1,39 @@
+import type { GameRules, Guess } from "@/lib/rules";
+import {
+  getCandidates,
+  summarizeCandidates,
+  type CandidateSummary,
+} from "@/lib/solver";
+
+// Web Worker behind the notepad candidates assistant (CandidatesPanel). On the
+// larger variants the first guesses leave up to a million codes to score, so
+// the enumeration runs off the main thread. Only the first MAX_LISTED
+// candidates are sent back for browsing; the count and summary cover them all.
+
+export const MAX_LISTED = 2000;
+
+export interface CandidatesRequest {
+  id: number; // echoed back so the panel can drop stale answers
+  rules: GameRules;
+  guesses: Guess[];
+}
+
+export interface CandidatesResponse {
+  id: number;
+  count: number;
+  listed: string[];
+  summary: CandidateSummary;
+}
+
+self.addEventListener("message", (event: MessageEvent<CandidatesRequest>) => {
+  const { id, rules, guesses } = event.data;
+  const candidates = getCandidates(rules, guesses);
+
+  const response: CandidatesResponse = {
+    id,
+    count: candidates.length,
+    listed: candidates.slice(0, MAX_LISTED),
+    summary: summarizeCandidates(candidates, rules),
+  };
+  self.postMessage(response);
+});
@@ -0,0 +1,37 @@
+// Commit–reveal helpers for player secrets.
+//
+// When a player marks ready, the server stores SHA-256(salt:secret) on the
+// public room row. Once the game ends the secret and salt are revealed, and
+// either client can recompute the hash to prove the secret never changed.
+// Uses Web Crypto so the same code runs in route handlers and the browser.
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+// Generate a random 128-bit salt as hex
+export const generateSalt = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+};
+
+// Hash a secret with its salt into a commitment
+export const createCommitment = async (
+  secret: string,
+  salt: string
+): Promise<string> => {
+  const data = new TextEncoder().encode(`${salt}:${secret}`);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return toHex(digest);
+};
+
+// Check a revealed secret and salt against a previously published commitment
+export const verifyCommitment = async (
+  secret: string,
+  salt: string,
+  commitment: string
+): Promise<boolean> => {
+  return (await createCommitment(secret, salt)) === commitment;
+};
@@ -1,4 +1,5 @@
 import { createClient } from "@/utils/supabase/client";
+import { requestNotification } from "@/lib/notificationRequests";
 
 export interface FriendRequest {
   id: number;
@@ -70,18 +71,22 @@ export const sendFriendRequest = async (fromUserId: string, toUserId: string): P
     }
   }
 
-  const { error } = await supabase
+  const { data, error } = await supabase
     .from("friend_requests")
     .insert({
       from_user_id: fromUserId,
       to_user_id: toUserId,
       status: "pending",
-    });
+    })
+    .select("id")
+    .single();
 
   if (error) {
     console.error("Error sending friend request:", error);
     throw new Error(`Failed to send friend request: ${error.message}`);
   }
+
+  await requestNotification("friend_request", data.id);
 };
 
 // Get incoming friend requests
@@ -0,0 +1,543 @@
+import type { GameRoom } from "@/lib/gameRoom";
+import { BOT_USER_IDS, type BotLevel } from "@/lib/bot";
+import {
+  DEFAULT_RULES,
+  DEFAULT_TIME_CONTROL,
+  chargeMove,
+  determineWinner,
+  evaluateGuess,
+  getFlaggedPlayer,
+  getRoomRules,
+  getRoomTimeControl,
+  getTurnElapsedMs,
+  opponentOf,
+  validateGuess,
+  validateSecretNumber,
+  type GameRules,
+  type Guess,
+  type TimeControl,
+  type Winner,
+} from "@/lib/rules";
+
+// Pure Guess4 room state machine.
+//
+// Every room transition goes through one of the functions below. They take the
+// current room row (plus whatever server-only data the transition needs, such
+// as the opponent's secret) and either return the column updates to apply or a
+// typed error. Nothing here touches the database or the clock directly, so the
+// /api/rooms route handlers own all I/O and pass `now` in explicitly. The game
+// rules themselves live in lib/rules.ts.
+
+export type RoomPhase =
+  | "waiting_for_opponent" // player 2 seat is open
+  | "setup" // both seated, at least one secret missing
+  | "ready" // both secrets set, game not started yet
+  | "playing"
+  | "finished";
+
+export type GameErrorCode =
+  | "not_a_player"
+  | "room_full"
+  | "already_in_room"
+  | "wrong_phase"
+  | "not_your_turn"
+  | "invalid_secret"
+  | "invalid_guess"
+  | "secret_missing"
+  | "clock_running";
+
+export interface GameError {
+  code: GameErrorCode;
+  message: string;
+}
+
+export type TransitionResult<T = object> =
+  | ({ ok: true; update: Partial<GameRoom> } & T)
+  | { ok: false; error: GameError };
+
+const fail = (code: GameErrorCode, message: string): { ok: false; error: GameError } => ({
+  ok: false,
+  error: { code, message },
+});
+
+// Derive the current phase from the room row
+export const getRoomPhase = (room: GameRoom): RoomPhase => {
+  if (room.winner) return "finished";
+  if (room.game_started) return "playing";
+  if (!room.player2_id) return "waiting_for_opponent";
+  if (room.player1_ready && room.player2_ready) return "ready";
+  return "setup";
+};
+
+// What a room is waiting on, from one player's point of view
+export type PlayerRoomStatus =
+  | "waiting_for_opponent" // player 2 seat is open
+  | "set_secret" // this player still has to pick a secret
+  | "opponent_setting_secret"
+  | "ready" // both secrets set, game not started yet
+  | "my_turn"
+  | "their_turn"
+  | "finished";
+
+export const getPlayerRoomStatus = (
+  room: GameRoom,
+  playerNumber: 1 | 2
+): PlayerRoomStatus => {
+  switch (getRoomPhase(room)) {
+    case "finished":
+      return "finished";
+    case "playing":
+      return room.current_turn === playerNumber ? "my_turn" : "their_turn";
+    case "ready":
+      return "ready";
+    default: {
+      const ready = playerNumber === 1 ? room.player1_ready : room.player2_ready;
+      if (!ready) return "set_secret";
+      return room.player2_id ? "opponent_setting_secret" : "waiting_for_opponent";
+    }
+  }
+};
+
+// Which seat the user occupies, if any
+export const getPlayerNumber = (room: GameRoom, userId: string): 1 | 2 | null => {
+  if (room.player1_id === userId) return 1;
+  if (room.player2_id === userId) return 2;
+  return null;
+};
+
+// Generate a random 6-digit room code
+export const generateRoomCode = (): string => {
+  return Math.floor(100000 + Math.random() * 900000).toString();
+};
+
+// Who may watch a room live (see /api/rooms/:code/watch)
+export type SpectatorAccess = "everyone" | "friends";
+
+// Settings chosen by the room creator
+export interface RoomSettings {
+  timeControl?: TimeControl;
+  rules?: GameRules;
+  assistantEnabled?: boolean; // notepad candidates assistant, on by default
+  rated?: boolean; // update both players' ratings; forces the assistant off
+  isPublic?: boolean; // list in the lobby until player 2 joins
+  spectators?: SpectatorAccess; // default everyone
+}
+
+// Initial row for a new room
+export const createRoom = (
+  roomCode: string,
+  userId: string,
+  {
+    timeControl = DEFAULT_TIME_CONTROL,
+    rules = DEFAULT_RULES,
+    assistantEnabled = true,
+    rated = false,
+    isPublic = false,
+    spectators = "everyone",
+  }: RoomSettings = {}
+): Omit<GameRoom, "id" | "created_at"> => ({
+  room_code: roomCode,
+  rules,
+  time_control: timeControl,
+  assistant_enabled: assistantEnabled && !rated,
+  rated,
+  is_public: isPublic,
+  spectators,
+  player1_id: userId,
+  player1_guesses: [],
+  player1_ready: false,
+  player2_id: null,
+  player2_guesses: [],
+  player2_ready: false,
+  current_turn: 1,
+  game_started: false,
+  winner: null,
+  player1_time_remaining: timeControl.base,
+  player2_time_remaining: timeControl.base,
+});
+
+// Columns that seat a bot as player 2, already ready with its committed secret
+export const seatBot = (
+  level: BotLevel,
+  commitment: string
+): Partial<GameRoom> => ({
+  bot_level: level,
+  player2_id: BOT_USER_IDS[level],
+  player2_ready: true,
+  player2_commitment: commitment,
+});
+
+// Take the open player 2 seat
+export const joinRoom = (room: GameRoom, userId: string): TransitionResult => {
+  if (room.player1_id === userId) {
+    return fail("already_in_room", "You created this room");
+  }
+  if (room.player2_id === userId) {
+    return { ok: true, update: {} };
+  }
+  if (getRoomPhase(room) !== "waiting_for_opponent") {
+    return fail("room_full", "Room is full or no longer available");
+  }
+  return { ok: true, update: { player2_id: userId } };
+};
+
+// Mark a player ready with a committed secret. The caller generates the
+// commitment and stores the secret itself; this only validates the move.
+export const setSecret = (
+  room: GameRoom,
+  userId: string,
+  secret: string,
+  commitment: string
+): TransitionResult<{ playerNumber: 1 | 2 }> => {
+  const playerNumber = getPlayerNumber(room, userId);
+  if (!playerNumber) {
+    return fail("not_a_player", "You are not a player in this room");
+  }
+
+  const phase = getRoomPhase(room);
+  if (phase === "playing" || phase === "finished") {
+    return fail(
+      "wrong_phase",
+      "Secrets cannot be changed after the game has started"
+    );
+  }
+
+  const validationError = validateSecretNumber(secret, getRoomRules(room));
+  if (validationError) {
+    return fail("invalid_secret", validationError);
+  }
+
+  return {
+    ok: true,
+    playerNumber,
+    update:
+      playerNumber === 1
+        ? { player1_ready: true, player1_commitment: commitment }
+        : { player2_ready: true, player2_commitment: commitment },
+  };
+};
+
+// Start the clock once both players are ready
+export const startGame = (
+  room: GameRoom,
+  userId: string,
+  now: number
+): TransitionResult => {
+  if (!getPlayerNumber(room, userId)) {
+    return fail("not_a_player", "You are not a player in this room");
+  }
+  if (getRoomPhase(room) !== "ready") {
+    return fail("wrong_phase", "Both players must be ready to start");
+  }
+  return {
+    ok: true,
+    update: {
+      game_started: true,
+      current_turn_player: 1,
+      turn_started_at: new Date(now).toISOString(),
+    },
+  };
+};
+
+// Score a guess against the opponent's secret and advance the turn
+export const submitGuess = (
+  room: GameRoom,
+  userId: string,
+  guessNumber: string,
+  opponentSecret: string | null,
+  now: number
+): TransitionResult<{ guess: Guess; winner: Winner }> => {
+  const playerNumber = getPlayerNumber(room, userId);
+  if (!playerNumber) {
+    return fail("not_a_player", "You are not a player in this room");
+  }
+  if (getRoomPhase(room) !== "playing") {
+    return fail("wrong_phase", "Game is not in progress");
+  }
+  if (room.current_turn !== playerNumber) {
+    return fail("not_your_turn", "It's not your turn");
+  }
+
+  const rules = getRoomRules(room);
+  const validationError = validateGuess(guessNumber, rules);
+  if (validationError) {
+    return fail("invalid_guess", validationError);
+  }
+
+  if (!opponentSecret || validateSecretNumber(opponentSecret, rules)) {
+    return fail(
+      "secret_missing",
+      "Opponent hasn't set their secret yet. Please wait."
+    );
+  }
+
+  const clocks = chargeMove(room, playerNumber, now);
+  const guess: Guess = {
+    number: guessNumber,
+    ...evaluateGuess(guessNumber, opponentSecret, rules.feedback),
+    playedAt: new Date(now).toISOString(),
+    thinkTimeMs: getTurnElapsedMs(room, now),
+    clock: {
+      player1: clocks.player1_time_remaining,
+      player2: clocks.player2_time_remaining,
+    },
+  };
+
+  const currentGuesses =
+    playerNumber === 1 ? room.player1_guesses : room.player2_guesses;
+  const opponentGuesses =
+    playerNumber === 1 ? room.player2_guesses : room.player1_guesses;
+  const updatedGuesses = [...currentGuesses, guess];
+
+  const winner = determineWinner(
+    playerNumber,
+    guess,
+    updatedGuesses,
+    opponentGuesses
+  );
+
+  const nextPlayer = opponentOf(playerNumber);
+
+  return {
+    ok: true,
+    guess,
+    winner,
+    update: {
+      ...(playerNumber === 1
+        ? { player1_guesses: updatedGuesses }
+        : { player2_guesses: updatedGuesses }),
+      ...clocks,
+      current_turn: nextPlayer,
+      current_turn_player: winner ? null : nextPlayer,
+      turn_started_at: winner ? null : new Date(now).toISOString(),
+      winner,
+    },
+  };
+};
+
+// How long a seated player 2 has to pick a secret before player 1 may cancel
+// the room (e.g. a matchmaking opponent who never opened the game)
+export const NO_SHOW_TIMEOUT_MS = 2 * 60_000;
+
+// Leave the room. Before the game starts this frees the seat (or deletes an
+// empty room, or one whose opponent never showed up); during the game it
+// forfeits to the opponent.
+export const resign = (
+  room: GameRoom,
+  userId: string,
+  now: number
+): TransitionResult<{ effect: "update" | "delete" | "none" }> => {
+  const playerNumber = getPlayerNumber(room, userId);
+  if (!playerNumber) {
+    return fail("not_a_player", "You are not a player in this room");
+  }
+
+  switch (getRoomPhase(room)) {
+    case "finished":
+      return { ok: true, effect: "none", update: {} };
+
+    case "playing":
+      return {
+        ok: true,
+        effect: "update",
+        update: {
+          winner: opponentOf(playerNumber),
+          current_turn_player: null,
+          turn_started_at: null,
+        },
+      };
+
+    default:
+      // Nobody else to keep the room for
+      if (playerNumber === 1 && (!room.player2_id || room.bot_level)) {
+        return { ok: true, effect: "delete", update: {} };
+      }
+      if (playerNumber === 2) {
+        return {
+          ok: true,
+          effect: "update",
+          update: {
+            player2_id: null,
+            player2_ready: false,
+            player2_commitment: null,
+          },
+        };
+      }
+      // Player 1 leaving before the start with an opponent seated: the room
+      // stays open for them, unless they haven't picked a secret in time
+      if (
+        !room.player2_ready &&
+        room.created_at &&
+        now - new Date(room.created_at).getTime() >= NO_SHOW_TIMEOUT_MS
+      ) {
+        return { ok: true, effect: "delete", update: {} };
+      }
+      return fail(
+        "wrong_phase",
+        "Your opponent is still setting up. You can cancel the game if they haven't picked a secret within 2 minutes."
+      );
+  }
+};
+
+// End the game on time if the player to move has flagged. Not tied to a
+// user: the server applies it whenever it loads a room, so a game never waits
+// for a client to claim the win.
+export const expireClock = (room: GameRoom, now: number): TransitionResult => {
+  if (getRoomPhase(room) !== "playing" || !room.current_turn_player) {
+    return fail("wrong_phase", "Game is not in progress");
+  }
+
+  const flaggedPlayer = getFlaggedPlayer(room, now);
+  if (!flaggedPlayer) {
+    return fail("clock_running", "Time has not run out yet");
+  }
+
+  return {
+    ok: true,
+    update: {
+      winner: opponentOf(flaggedPlayer),
+      ...(flaggedPlayer === 1
+        ? { player1_time_remaining: 0 }
+        : { player2_time_remaining: 0 }),
+      current_turn_player: null,
+      turn_started_at: null,
+    },
+  };
+};
+
+// Claim a win on time for the room. Either player can claim it.
+export const claimTimeout = (
+  room: GameRoom,
+  userId: string,
+  now: number
+): TransitionResult => {
+  if (!getPlayerNumber(room, userId)) {
+    return fail("not_a_player", "You are not a player in this room");
+  }
+  return expireClock(room, now);
+};
+
+// Rematches of a finished two-player room. Either player can offer one; the
+// other accepts or declines. Accepting opens a new room with the same settings
+// and the seats swapped, so whoever moved second now moves first. All rooms
+// in a chain of rematches share a series_id for the head-to-head score.
+
+const checkRematch = (room: GameRoom, userId: string): GameError | null => {
+  if (!getPlayerNumber(room, userId)) {
+    return { code: "not_a_player", message: "You are not a player in this room" };
+  }
+  if (getRoomPhase(room) !== "finished") {
+    return { code: "wrong_phase", message: "The game is not over yet" };
+  }
+  if (room.bot_level) {
+    return { code: "wrong_phase", message: "Bot games have no rematch" };
+  }
+  if (room.rematch_room_code) {
+    return { code: "wrong_phase", message: "The rematch has already started" };
+  }
+  if (room.rematch_declined) {
+    return { code: "wrong_phase", message: "The rematch was declined" };
+  }
+  return null;
+};
+
+export const offerRematch = (room: GameRoom, userId: string): TransitionResult => {
+  const error = checkRematch(room, userId);
+  if (error) return { ok: false, error };
+
+  if (room.rematch_offered_by === userId) {
+    return { ok: true, update: {} };
+  }
+  if (room.rematch_offered_by) {
+    return fail("wrong_phase", "Your opponent already offered a rematch");
+  }
+  return { ok: true, update: { rematch_offered_by: userId } };
+};
+
+// Only the player the rematch was offered to can answer it
+const checkRematchAnswer = (room: GameRoom, userId: string): GameError | null => {
+  const error = checkRematch(room, userId);
+  if (error) return error;
+  if (!room.rematch_offered_by || room.rematch_offered_by === userId) {
+    return { code: "wrong_phase", message: "There is no rematch offer to answer" };
+  }
+  return null;
+};
+
+export const declineRematch = (
+  room: GameRoom,
+  userId: string
+): TransitionResult => {
+  const error = checkRematchAnswer(room, userId);
+  if (error) return { ok: false, error };
+  return { ok: true, update: { rematch_declined: true } };
+};
+
+// `rematch` is the new room's initial row; `update` links the old room to it
+export const acceptRematch = (
+  room: GameRoom,
+  userId: string,
+  roomCode: string
+): TransitionResult<{ rematch: Omit<GameRoom, "id" | "created_at"> }> => {
+  const error = checkRematchAnswer(room, userId);
+  if (error) return { ok: false, error };
+  if (!room.player1_id || !room.player2_id) {
+    return fail("wrong_phase", "Both seats must be taken for a rematch");
+  }
+
+  const seriesId = room.series_id ?? room.room_code;
+  const settings = {
+    timeControl: getRoomTimeControl(room),
+    rules: getRoomRules(room),
+    assistantEnabled: room.assistant_enabled !== false,
+    rated: room.rated === true,
+    spectators: room.spectators ?? "everyone",
+  };
+
+  return {
+    ok: true,
+    update: { rematch_room_code: roomCode, series_id: seriesId },
+    rematch: {
+      ...createRoom(roomCode, room.player2_id, settings),
+      player2_id: room.player1_id,
+      series_id: seriesId,
+    },
+  };
+};
+
+// Play the bot's guess in a bot room, as the reply to the human's guess (the
+// human is always player 1). The bot's turn is taken to have started
+// `thinkMs` before `now`, so its clock is charged that think time and the
+// time control (bonus, delay or flagging) applies as for a human. If the
+// think time runs its clock out, the human wins on time and `guess` is null.
+// Otherwise the move is a normal guess by the bot's seat.
+export const playBotTurn = (
+  room: GameRoom,
+  userId: string,
+  botGuess: string,
+  opponentSecret: string | null,
+  now: number,
+  thinkMs: number
+): TransitionResult<{ guess: Guess | null; winner: Winner }> => {
+  if (!room.bot_level || !room.player2_id) {
+    return fail("wrong_phase", "This room has no bot");
+  }
+  if (getPlayerNumber(room, userId) !== 1) {
+    return fail("not_a_player", "You are not a player in this room");
+  }
+
+  const thinking: GameRoom = {
+    ...room,
+    turn_started_at: new Date(now - thinkMs).toISOString(),
+  };
+  const flagged = expireClock(thinking, now);
+  if (flagged.ok) {
+    return {
+      ok: true,
+      guess: null,
+      winner: flagged.update.winner ?? null,
+      update: flagged.update,
+    };
+  }
+  return submitGuess(thinking, room.player2_id, botGuess, opponentSecret, now);
+};
@@ -1,10 +1,19 @@
-import { createClient } from "@/utils/supabase/client";
-
-export interface Guess {
-  number: string;
-  correctDigits: number;
-  correctPositions: number;
-}
+import { createClient, getAccessToken } from "@/utils/supabase/client";
+import type { GameErrorCode, SpectatorAccess } from "@/lib/gameMachine";
+import type { BotLevel } from "@/lib/bot";
+import type { QueueStatus } from "@/lib/matchmaking";
+import { requestNotification } from "@/lib/notificationRequests";
+import { getRatingCategory } from "@/lib/rating";
+import {
+  getRoomTimeControl,
+  getTimeRemaining,
+  type GameRules,
+  type Guess,
+  type TimeControl,
+  type Winner,
+} from "@/lib/rules";
+
+export type { Guess };
 
 export interface PlayerProfile {
   username: string;
@@ -14,17 +23,24 @@ export interface PlayerProfile {
 export interface GameRoom {
   id?: number;
   room_code: string;
+  rules?: GameRules | null; // null on rooms created before variants
+  time_control?: TimeControl | null; // null on rooms created before time controls
+  assistant_enabled?: boolean; // notepad candidates assistant allowed
+  rated?: boolean; // counts toward ratings (see lib/rating.ts)
+  is_public?: boolean; // listed in the lobby while waiting for player 2
+  spectators?: SpectatorAccess; // who may watch at /watch/<room code>
   player1_id?: string | null;
-  player1_secret: string;
   player1_guesses: Guess[];
   player1_ready: boolean;
   player2_id?: string | null;
-  player2_secret: string;
+  bot_level?: BotLevel | null; // player 2 is the computer
   player2_guesses: Guess[];
   player2_ready: boolean;
+  player1_commitment?: string | null; // SHA-256(salt:secret), set on ready
+  player2_commitment?: string | null;
   current_turn: 1 | 2;
   game_started: boolean;
-  winner: 1 | 2 | "tie" | null;
+  winner: Winner;
   finished_at?: string | null;
   created_at?: string;
   player1_profile?: PlayerProfile | null;
@@ -34,56 +50,287 @@ export interface GameRoom {
   current_turn_player?: 1 | 2 | null;
   turn_started_at?: string | null;
   version?: number; // for optimistic locking
+  // Rematches: who offered one, whether it was declined, the new room once
+  // accepted, and the first room of the chain (shared by every rematch)
+  rematch_offered_by?: string | null;
+  rematch_declined?: boolean;
+  rematch_room_code?: string | null;
+  series_id?: string | null;
+}
+
+export interface PlayerSecrets {
+  secret: string | null;
+  salt: string | null;
+  // Only revealed once the game has a winner
+  opponentSecret: string | null;
+  opponentSalt: string | null;
+}
+
+// Sanitized room view: every column except secrets, which live in the
+// service-role-only game_secrets table. Used by all room reads.
+const ROOM_SELECT = `
+  id,
+  room_code,
+  rules,
+  time_control,
+  assistant_enabled,
+  rated,
+  is_public,
+  spectators,
+  player1_id,
+  player1_guesses,
+  player1_ready,
+  player2_id,
+  bot_level,
+  player2_guesses,
+  player2_ready,
+  player1_commitment,
+  player2_commitment,
+  current_turn,
+  game_started,
+  winner,
+  finished_at,
+  created_at,
+  player1_time_remaining,
+  player2_time_remaining,
+  current_turn_player,
+  turn_started_at,
+  version,
+  rematch_offered_by,
+  rematch_declined,
+  rematch_room_code,
+  series_id,
+  player1_profile:user_profiles!game_rooms_player1_id_fkey(username, display_name),
+  player2_profile:user_profiles!game_rooms_player2_id_fkey(username, display_name)
+`;
+
+// Error returned by an /api/rooms endpoint. `code` is the state machine's
+// error code when the transition was rejected, or "conflict" when the room
+// changed underneath the request.
+export class RoomApiError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: GameErrorCode | "conflict",
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "RoomApiError";
+  }
 }
 
-// Generate a random 6-digit room code
-export const generateRoomCode = (): string => {
-  return Math.floor(100000 + Math.random() * 900000).toString();
+// Call an /api/rooms endpoint with the session token. Throws a RoomApiError
+// carrying the server's message on failure.
+const roomRequest = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const token = getAccessToken();
+  const response = await fetch(`/api/rooms${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+
+  // Proxies and platform errors (e.g. a function timeout) may not send JSON
+  let data;
+  try {
+    data = await response.json();
+  } catch {
+    throw new RoomApiError(
+      response.statusText || "Request failed",
+      undefined,
+      response.status
+    );
+  }
+
+  if (!response.ok) {
+    throw new RoomApiError(
+      data.message || "Request failed",
+      data.code,
+      response.status
+    );
+  }
+
+  return data as T;
 };
 
-// Create a new game room
+export interface CreateRoomOptions {
+  timeControl?: TimeControl; // default 5+5
+  rules?: GameRules;
+  bot?: BotLevel; // play against the computer instead of waiting for player 2
+  assistant?: boolean; // allow the candidates assistant, default true
+  rated?: boolean; // rated game (never with a bot; turns the assistant off)
+  public?: boolean; // list the room in the lobby (never with a bot)
+  spectators?: SpectatorAccess; // who may watch, default everyone
+}
+
+// Create a new game room with the signed-in user as player 1
 export const createGameRoom = async (
-  userId?: string,
-  timeLimit?: number // in seconds, default 300 (5 minutes)
+  options: CreateRoomOptions = {}
 ): Promise<string> => {
+  console.log("Creating game room:", options);
+
+  try {
+    const { roomCode } = await roomRequest<{ roomCode: string }>("", {
+      method: "POST",
+      body: JSON.stringify(options),
+    });
+    return roomCode;
+  } catch (error) {
+    console.error("Error creating room:", error);
+    throw error;
+  }
+};
+
+// Join the public matchmaking queue, or refresh the caller's entry while
+// waiting (see lib/matchmaking.ts)
+export const joinMatchmaking = async (
+  timeControl: TimeControl,
+  rules: GameRules,
+  rated: boolean
+): Promise<QueueStatus> => {
+  try {
+    return await roomRequest<QueueStatus>("/queue", {
+      method: "POST",
+      body: JSON.stringify({ timeControl, rules, rated }),
+    });
+  } catch (error) {
+    console.error("Error joining matchmaking:", error);
+    throw error;
+  }
+};
+
+// Leave the queue. Returns the room code if an opponent was already found.
+export const leaveMatchmaking = async (): Promise<string | null> => {
+  try {
+    const { roomCode } = await roomRequest<{ roomCode?: string | null }>(
+      "/queue",
+      { method: "DELETE" }
+    );
+    return roomCode ?? null;
+  } catch (error) {
+    console.error("Error leaving matchmaking:", error);
+    throw error;
+  }
+};
+
+// Called with the room code when another player pairs with the waiting user
+export const subscribeToMatchmaking = (
+  userId: string,
+  callback: (roomCode: string) => void
+): (() => void) => {
   const supabase = createClient();
-  console.log("Creating game room for user:", userId, "with time limit:", timeLimit);
-  const roomCode = generateRoomCode();
-
-  const timeInSeconds = timeLimit || 300; // Default to 5 minutes
-
-  const newRoom = {
-    room_code: roomCode,
-    player1_id: userId || null,
-    player1_secret: "",
-    player1_guesses: [],
-    player1_ready: false,
-    player2_id: null,
-    player2_secret: "",
-    player2_guesses: [],
-    player2_ready: false,
-    current_turn: 1,
-    game_started: false,
-    winner: null,
-    player1_time_remaining: timeInSeconds,
-    player2_time_remaining: timeInSeconds,
+  const channel = supabase
+    .channel(`queue:${userId}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "UPDATE",
+        schema: "public",
+        table: "matchmaking_queue",
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => {
+        const roomCode = (payload.new as { room_code?: string | null }).room_code;
+        if (roomCode) callback(roomCode);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
   };
+};
 
-  const { data, error } = await supabase.from("game_rooms").insert([newRoom]).select();
+// Lobby rooms older than this are left out (their creator has likely gone)
+const LOBBY_MAX_AGE_MS = 60 * 60 * 1000;
+const LOBBY_LIMIT = 20;
+
+export interface LobbyRoom {
+  room: GameRoom;
+  // Creator's rating in the room's time-control category, if rated there
+  creatorRating: { rating: number; deviation: number } | null;
+}
 
-  console.log("Create room result:", { data, error });
+// Public rooms still waiting for player 2, newest first
+export const getLobbyRooms = async (): Promise<LobbyRoom[]> => {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("game_rooms")
+    .select(ROOM_SELECT)
+    .eq("is_public", true)
+    .is("player2_id", null)
+    .gte("created_at", new Date(Date.now() - LOBBY_MAX_AGE_MS).toISOString())
+    .order("created_at", { ascending: false })
+    .limit(LOBBY_LIMIT);
 
   if (error) {
-    console.error("Error creating room:", error);
-    throw new Error(`Failed to create game room: ${error.message}`);
+    console.error("Error fetching lobby:", error);
+    throw new Error(`Failed to load the lobby: ${error.message}`);
   }
 
-  if (!data || data.length === 0) {
-    console.error("No data returned from insert");
-    throw new Error("Failed to create game room: No data returned");
+  const rooms = (data ?? []) as unknown as GameRoom[];
+  const creatorIds = [
+    ...new Set(rooms.map((room) => room.player1_id).filter(Boolean)),
+  ] as string[];
+  if (creatorIds.length === 0) return [];
+
+  const { data: ratings, error: ratingsError } = await supabase
+    .from("user_ratings")
+    .select("user_id, category, rating, deviation")
+    .in("user_id", creatorIds);
+
+  if (ratingsError) {
+    console.error("Error fetching lobby ratings:", ratingsError);
   }
 
-  return roomCode;
+  return rooms.map((room) => {
+    const category = getRatingCategory(getRoomTimeControl(room));
+    const row = (ratings ?? []).find(
+      (r) => r.user_id === room.player1_id && r.category === category
+    );
+    return {
+      room,
+      creatorRating: row ? { rating: row.rating, deviation: row.deviation } : null,
+    };
+  });
+};
+
+// Called whenever a public room is created, filled or changed, or any room
+// is deleted (delete events can't be filtered), so the lobby can reload
+export const subscribeToLobby = (callback: () => void): (() => void) => {
+  const supabase = createClient();
+  const channel = supabase
+    .channel("lobby")
+    .on(
+      "postgres_changes",
+      {
+        event: "INSERT",
+        schema: "public",
+        table: "game_rooms",
+        filter: "is_public=eq.true",
+      },
+      callback
+    )
+    .on(
+      "postgres_changes",
+      {
+        event: "UPDATE",
+        schema: "public",
+        table: "game_rooms",
+        filter: "is_public=eq.true",
+      },
+      callback
+    )
+    .on(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "game_rooms" },
+      callback
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
 };
 
 // Check if a room exists
@@ -105,38 +352,21 @@ export const checkRoomExists = async (roomCode: string): Promise<boolean> => {
   return !!data;
 };
 
-// Join a game room
-export const joinGameRoom = async (
-  roomCode: string,
-  userId?: string
-): Promise<boolean> => {
-  const supabase = createClient();
-  console.log("Attempting to join room:", { roomCode, userId });
-  const exists = await checkRoomExists(roomCode);
-
-  if (exists && userId) {
-    // Update the room with player2_id
-    const { data, error } = await supabase
-      .from("game_rooms")
-      .update({ player2_id: userId })
-      .eq("room_code", roomCode)
-      .is("player2_id", null)
-      .select();
-
-    console.log("Join room update result:", { data, error });
-
-    if (error) {
-      console.error("Error joining room:", error);
-      throw new Error(`Failed to join room: ${error.message}`);
-    }
+// Join a game room as player 2. Returns false if the seat is taken.
+export const joinGameRoom = async (roomCode: string): Promise<boolean> => {
+  console.log("Attempting to join room:", roomCode);
 
-    if (!data || data.length === 0) {
-      console.warn("Room might already be full or doesn't exist");
+  try {
+    await roomRequest(`/${roomCode}/join`, { method: "POST" });
+    return true;
+  } catch (error) {
+    if (error instanceof RoomApiError && error.code === "room_full") {
+      console.warn("Room is already full");
       return false;
     }
+    console.error("Error joining room:", error);
+    throw error;
   }
-
-  return exists;
 };
 
 // Get game room data
@@ -146,11 +376,7 @@ export const getGameRoom = async (
   const supabase = createClient();
   const { data, error } = await supabase
     .from("game_rooms")
-    .select(`
-      *,
-      player1_profile:user_profiles!game_rooms_player1_id_fkey(username, display_name),
-      player2_profile:user_profiles!game_rooms_player2_id_fkey(username, display_name)
-    `)
+    .select(ROOM_SELECT)
     .eq("room_code", roomCode)
     .single();
 
@@ -161,198 +387,98 @@ export const getGameRoom = async (
 
   if (!data) return null;
 
-  return data as GameRoom;
+  return data as unknown as GameRoom;
 };
 
-// Set player's secret number
+// Set player's secret number. Secrets are stored server-side in game_secrets
+// and never written to the game_rooms row.
 export const setPlayerSecret = async (
   roomCode: string,
-  playerNumber: 1 | 2,
   secretNumber: string
 ): Promise<void> => {
-  const supabase = createClient();
-  const updateData =
-    playerNumber === 1
-      ? { player1_secret: secretNumber, player1_ready: true }
-      : { player2_secret: secretNumber, player2_ready: true };
-
-  const { error } = await supabase
-    .from("game_rooms")
-    .update(updateData)
-    .eq("room_code", roomCode);
-
-  if (error) {
+  try {
+    await roomRequest(`/${roomCode}/secret`, {
+      method: "POST",
+      body: JSON.stringify({ secret: secretNumber }),
+    });
+  } catch (error) {
     console.error("Error setting secret:", error);
     throw error;
   }
 };
 
-// Submit a guess
-export const submitGuess = async (
-  roomCode: string,
-  playerNumber: 1 | 2,
-  guess: Guess
-): Promise<boolean> => {
-  const supabase = createClient();
-  // Get current room data
-  const room = await getGameRoom(roomCode);
-  if (!room) throw new Error("Room not found");
-
-  const currentVersion = room.version || 1;
-
-  // Calculate time elapsed for current turn
-  let updatedPlayer1Time = room.player1_time_remaining ?? 300;
-  let updatedPlayer2Time = room.player2_time_remaining ?? 300;
-
-  if (room.turn_started_at && room.current_turn_player === playerNumber) {
-    const turnStartTime = new Date(room.turn_started_at).getTime();
-    const now = Date.now();
-    const elapsedSeconds = Math.floor((now - turnStartTime) / 1000);
-
-    if (playerNumber === 1) {
-      updatedPlayer1Time = Math.max(0, updatedPlayer1Time - elapsedSeconds);
-      // Add 5 second bonus for making a move
-      updatedPlayer1Time += 5;
-    } else {
-      updatedPlayer2Time = Math.max(0, updatedPlayer2Time - elapsedSeconds);
-      // Add 5 second bonus for making a move
-      updatedPlayer2Time += 5;
-    }
-  }
-
-  const currentGuesses =
-    playerNumber === 1 ? room.player1_guesses : room.player2_guesses;
-  const updatedGuesses = [...currentGuesses, guess];
-
-  const opponentGuesses =
-    playerNumber === 1 ? room.player2_guesses : room.player1_guesses;
-
-  // Determine winner only if both players have had equal turns
-  let winner: 1 | 2 | "tie" | null = null;
-
-  if (guess.correctPositions === 4) {
-    // This player got it correct
-    if (playerNumber === 1) {
-      // Player 1 guessed correctly
-      // Check if Player 2 has had the same number of turns
-      if (opponentGuesses.length >= updatedGuesses.length) {
-        // Player 2 already had equal or more turns, Player 1 wins
-        winner = 1;
-      }
-      // Otherwise, Player 2 still needs their turn
-    } else {
-      // Player 2 guessed correctly
-      // Player 2 always finishes after or at the same time as Player 1
-      // Check if Player 1 also got it correct
-      const player1GotItCorrect = opponentGuesses.some(
-        (g) => g.correctPositions === 4
-      );
-
-      if (player1GotItCorrect) {
-        // Both got it correct with equal turns - it's a tie!
-        winner = "tie";
-      } else {
-        // Only Player 2 got it correct - Player 2 wins
-        winner = 2;
-      }
-    }
-  } else {
-    // This player didn't get it correct
-    // Check if opponent already got it correct and this was their final turn
-    const opponentGotItCorrect = opponentGuesses.some(
-      (g) => g.correctPositions === 4
-    );
-
-    if (opponentGotItCorrect) {
-      // Opponent got it correct and this player just finished their equal turn
-      winner = playerNumber === 1 ? 2 : 1;
-    }
+// Get the player's own secret, plus the opponent's once the game is over
+export const getPlayerSecrets = async (
+  roomCode: string
+): Promise<PlayerSecrets> => {
+  try {
+    return await roomRequest<PlayerSecrets>(`/${roomCode}/secret`);
+  } catch (error) {
+    console.error("Error fetching secrets:", error);
+    throw error;
   }
+};
 
-  const nextPlayer = playerNumber === 1 ? 2 : 1;
-  const updateData =
-    playerNumber === 1
-      ? {
-          player1_guesses: updatedGuesses,
-          player1_time_remaining: updatedPlayer1Time,
-          player2_time_remaining: updatedPlayer2Time,
-          current_turn: 2,
-          current_turn_player: winner ? null : nextPlayer,
-          turn_started_at: winner ? null : new Date().toISOString(),
-          winner: winner,
-        }
-      : {
-          player2_guesses: updatedGuesses,
-          player1_time_remaining: updatedPlayer1Time,
-          player2_time_remaining: updatedPlayer2Time,
-          current_turn: 1,
-          current_turn_player: winner ? null : nextPlayer,
-          turn_started_at: winner ? null : new Date().toISOString(),
-          winner: winner,
-        };
-
-  const { data, error } = await supabase
-    .from("game_rooms")
-    .update(updateData)
-    .eq("room_code", roomCode)
-    .eq("version", currentVersion) // Optimistic lock check
-    .eq("current_turn", playerNumber) // Ensure it's still this player's turn
-    .select();
+export interface GuessResult {
+  guess: Guess;
+  winner: Winner;
+  botGuess?: Guess; // the bot's reply, played in the same request in bot rooms
+}
 
-  if (error) {
+// Submit a guess. Scoring happens server-side against the opponent's stored
+// secret, so only the guess string leaves the client.
+export const submitGuess = async (
+  roomCode: string,
+  guessNumber: string
+): Promise<GuessResult> => {
+  try {
+    return await roomRequest<GuessResult>(`/${roomCode}/guess`, {
+      method: "POST",
+      body: JSON.stringify({ guess: guessNumber }),
+    });
+  } catch (error) {
     console.error("Error submitting guess:", error);
     throw error;
   }
-
-  // If no rows were updated, there was a version conflict or turn changed
-  if (!data || data.length === 0) {
-    console.warn("Version conflict or turn changed, guess not submitted");
-    return false;
-  }
-
-  return true;
 };
 
-// Start the game when both players are ready
+// Start the game when both players are ready. Returns false if another call
+// already started it.
 export const startGame = async (roomCode: string): Promise<boolean> => {
-  const supabase = createClient();
-  const { data, error } = await supabase
-    .from("game_rooms")
-    .update({
-      game_started: true,
-      current_turn_player: 1,
-      turn_started_at: new Date().toISOString(),
-    })
-    .eq("room_code", roomCode)
-    .eq("game_started", false) // Only start if not already started
-    .select();
-
-  if (error) {
+  try {
+    await roomRequest(`/${roomCode}/start`, { method: "POST" });
+    return true;
+  } catch (error) {
+    if (
+      error instanceof RoomApiError &&
+      (error.code === "wrong_phase" || error.code === "conflict")
+    ) {
+      return false;
+    }
     console.error("Error starting game:", error);
     throw error;
   }
-
-  // Return false if update didn't affect any rows (game already started)
-  return data && data.length > 0;
 };
 
-// Subscribe to room updates
-export const subscribeToRoom = (
+// Run `reload` now, on every realtime change to the room and on a polling
+// fallback. Callers re-read through a sanitized view rather than using the
+// raw row from the payload.
+const watchRoomChanges = (
+  channelName: string,
   roomCode: string,
-  callback: (room: GameRoom | null) => void
+  reload: () => void,
+  pollMs: number
 ): (() => void) => {
   const supabase = createClient();
   // Initial fetch
-  getGameRoom(roomCode).then(callback);
+  reload();
 
-  // Set up polling as a fallback (every 2 seconds)
-  const pollInterval = setInterval(() => {
-    getGameRoom(roomCode).then(callback);
-  }, 2000);
+  // Set up polling as a fallback
+  const pollInterval = setInterval(reload, pollMs);
 
   // Subscribe to changes
   const channel = supabase
-    .channel(`room:${roomCode}`)
+    .channel(channelName)
     .on(
       "postgres_changes",
       {
@@ -361,9 +487,7 @@ export const subscribeToRoom = (
         table: "game_rooms",
         filter: `room_code=eq.${roomCode}`,
       },
-      (payload) => {
-        callback(payload.new as GameRoom);
-      }
+      reload
     )
     .subscribe();
 
@@ -374,31 +498,75 @@ export const subscribeToRoom = (
   };
 };
 
-// Update stats after game ends
-export const updateGameStats = async (roomCode: string): Promise<void> => {
-  const supabase = createClient();
-  const { error } = await supabase.rpc("update_user_stats_after_game", {
-    p_room_code: roomCode,
-  });
+// Subscribe to room updates
+export const subscribeToRoom = (
+  roomCode: string,
+  callback: (room: GameRoom | null) => void
+): (() => void) =>
+  // Same payload shape as getGameRoom (profiles included)
+  watchRoomChanges(
+    `room:${roomCode}`,
+    roomCode,
+    () => {
+      getGameRoom(roomCode).then(callback);
+    },
+    2000
+  );
+
+// What a spectator sees: the room (which never holds secrets) and both
+// secrets once the game is over
+export interface SpectatorView {
+  room: GameRoom;
+  secrets: { player1: string | null; player2: string | null } | null;
+}
 
-  if (error) {
-    console.error("Error updating stats:", error);
-    throw error;
-  }
-};
+// Spectator view of a room. Throws a RoomApiError (403) when the room only
+// allows the players' friends to watch.
+export const getSpectatorView = async (
+  roomCode: string
+): Promise<SpectatorView> => roomRequest<SpectatorView>(`/${roomCode}/watch`);
 
-// Delete a game room
-export const deleteGameRoom = async (roomCode: string): Promise<void> => {
+// Follow a room as a spectator, like subscribeToRoom but through the
+// /watch endpoint. `onError` gets the failure when the view can't be loaded.
+export const subscribeToSpectatorView = (
+  roomCode: string,
+  callback: (view: SpectatorView) => void,
+  onError: (error: unknown) => void
+): (() => void) =>
+  watchRoomChanges(
+    `watch:${roomCode}`,
+    roomCode,
+    () => {
+      getSpectatorView(roomCode).then(callback).catch(onError);
+    },
+    5000
+  );
+
+// Live number of spectators in a room, over realtime presence. Spectators
+// pass their own `viewerKey` to be counted; players only listen.
+export const subscribeToSpectatorCount = (
+  roomCode: string,
+  callback: (count: number) => void,
+  viewerKey?: string
+): (() => void) => {
   const supabase = createClient();
-  const { error } = await supabase
-    .from("game_rooms")
-    .delete()
-    .eq("room_code", roomCode);
+  const channel = supabase.channel(`spectators:${roomCode}`, {
+    config: { presence: { key: viewerKey ?? "" } },
+  });
 
-  if (error) {
-    console.error("Error deleting room:", error);
-    throw error;
-  }
+  channel
+    .on("presence", { event: "sync" }, () => {
+      callback(Object.keys(channel.presenceState()).length);
+    })
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED" && viewerKey) {
+        channel.track({ watching_since: new Date().toISOString() });
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
 };
 
 // Send a game invite to a friend
@@ -421,172 +589,151 @@ export const sendGameInvite = async (roomCode: string, toUserId: string, fromUse
 
   if (!currentUserId) throw new Error("Not authenticated");
 
-  const { error } = await supabase
+  const { data, error } = await supabase
     .from("game_invites")
     .insert({
       room_code: roomCode,
       from_user_id: currentUserId,
       to_user_id: toUserId,
-    });
+    })
+    .select("id")
+    .single();
 
   if (error) {
     console.error("Error sending game invite:", error);
     throw new Error(`Failed to send game invite: ${error.message}`);
   }
+
+  await requestNotification("invite", data.id);
 };
 
-// Get user's active room (unfinished game they're in)
-export const getUserActiveRoom = async (userId: string): Promise<{ room: GameRoom; playerNumber: 1 | 2 } | null> => {
+export interface ActiveRoom {
+  room: GameRoom;
+  playerNumber: 1 | 2;
+}
+
+// All unfinished games the user is in, newest first
+export const getUserActiveRooms = async (userId: string): Promise<ActiveRoom[]> => {
   const supabase = createClient();
 
   const { data, error } = await supabase
     .from("game_rooms")
-    .select(`
-      *,
-      player1_profile:user_profiles!game_rooms_player1_id_fkey(username, display_name),
-      player2_profile:user_profiles!game_rooms_player2_id_fkey(username, display_name)
-    `)
+    .select(ROOM_SELECT)
     .or(`player1_id.eq.${userId},player2_id.eq.${userId}`)
     .is("winner", null) // Game not finished
-    .order("created_at", { ascending: false })
-    .limit(1)
-    .single();
+    .order("created_at", { ascending: false });
 
-  if (error || !data) {
-    return null;
+  if (error) {
+    console.error("Error fetching active rooms:", error);
+    throw new Error(`Failed to load active games: ${error.message}`);
   }
 
-  const room = data as GameRoom;
-  const playerNumber = room.player1_id === userId ? 1 : 2;
-
-  return { room, playerNumber };
+  return ((data ?? []) as unknown as GameRoom[]).map((room) => ({
+    room,
+    playerNumber: room.player1_id === userId ? 1 : 2,
+  }));
 };
 
-// Handle time expiration (opponent wins)
-export const handleTimeExpiration = async (
-  roomCode: string,
-  playerNumber: 1 | 2
-): Promise<boolean> => {
-  const supabase = createClient();
+export const HISTORY_PAGE_SIZE = 10;
 
-  // Opponent wins when this player runs out of time
-  const winner = playerNumber === 1 ? 2 : 1;
+// Finished games the user played in, newest first. `page` is 0-based.
+export const getUserGameHistory = async (
+  userId: string,
+  page: number
+): Promise<{ rooms: GameRoom[]; total: number }> => {
+  const supabase = createClient();
+  const from = page * HISTORY_PAGE_SIZE;
 
-  const { data, error } = await supabase
+  const { data, error, count } = await supabase
     .from("game_rooms")
-    .update({
-      winner: winner,
-      current_turn_player: null,
-      turn_started_at: null,
-    })
-    .eq("room_code", roomCode)
-    .is("winner", null) // Only update if game hasn't ended yet
-    .eq("current_turn_player", playerNumber) // Verify it's this player's turn
-    .select();
+    .select(ROOM_SELECT, { count: "exact" })
+    .or(`player1_id.eq.${userId},player2_id.eq.${userId}`)
+    .not("winner", "is", null)
+    .order("finished_at", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false })
+    .range(from, from + HISTORY_PAGE_SIZE - 1);
 
   if (error) {
-    console.error("Error handling time expiration:", error);
-    throw error;
+    console.error("Error fetching game history:", error);
+    throw new Error(`Failed to load game history: ${error.message}`);
   }
 
-  // Return false if no rows updated (game already ended or not this player's turn)
-  return data && data.length > 0;
+  return {
+    rooms: (data ?? []) as unknown as GameRoom[],
+    total: count ?? 0,
+  };
 };
 
-// Get current time remaining for a player (accounts for elapsed time)
-export const getCurrentTimeRemaining = (room: GameRoom, playerNumber: 1 | 2): number => {
-  const baseTime = playerNumber === 1
-    ? (room.player1_time_remaining ?? 300)
-    : (room.player2_time_remaining ?? 300);
-
-  // If it's this player's turn and game is active, subtract elapsed time
-  if (
-    room.current_turn_player === playerNumber &&
-    room.turn_started_at &&
-    !room.winner
-  ) {
-    const turnStartTime = new Date(room.turn_started_at).getTime();
-    const now = Date.now();
-    const elapsedSeconds = Math.floor((now - turnStartTime) / 1000);
-    return Math.max(0, baseTime - elapsedSeconds);
+// Claim a win on time when the player to move has run out. The server checks
+// the clock itself; returns false if time hasn't actually expired yet or the
+// game already ended.
+export const handleTimeExpiration = async (roomCode: string): Promise<boolean> => {
+  try {
+    await roomRequest(`/${roomCode}/timeout`, { method: "POST" });
+    return true;
+  } catch (error) {
+    if (error instanceof RoomApiError && error.status === 409) {
+      return false;
+    }
+    console.error("Error handling time expiration:", error);
+    throw error;
   }
-
-  return baseTime;
 };
 
-// Leave/end a game room
-export const leaveGame = async (
-  roomCode: string,
-  userId: string,
-  playerNumber: 1 | 2
-): Promise<boolean> => {
-  console.log("🚪 leaveGame: Player", playerNumber, "leaving room:", roomCode);
+// Get current time remaining for a player (accounts for elapsed time)
+export const getCurrentTimeRemaining = (room: GameRoom, playerNumber: 1 | 2): number =>
+  getTimeRemaining(room, playerNumber, Date.now());
 
-  const supabase = createClient();
+// Leave/end a game room. Forfeits if the game is in progress. Throws a
+// RoomApiError if the room can't be left yet (an opponent is still setting up).
+export const leaveGame = async (roomCode: string): Promise<void> => {
+  console.log("🚪 leaveGame: Leaving room:", roomCode);
 
   try {
-    const room = await getGameRoom(roomCode);
-    if (!room) return false;
-
-    // If game hasn't started and player is alone, delete the room
-    if (!room.game_started && !room.player2_id && playerNumber === 1) {
-      console.log("🗑️ leaveGame: Deleting empty room");
-      const { error } = await supabase
-        .from("game_rooms")
-        .delete()
-        .eq("room_code", roomCode);
-
-      if (error) throw error;
-      return true;
-    }
+    await roomRequest(`/${roomCode}/resign`, { method: "POST" });
+  } catch (error) {
+    console.error("❌ leaveGame: Error:", error);
+    throw error;
+  }
+};
 
-    // If game hasn't started but player 2 joined, remove player 2
-    if (!room.game_started && room.player2_id && playerNumber === 2) {
-      console.log("🚪 leaveGame: Removing player 2 from waiting room");
-      const { error } = await supabase
-        .from("game_rooms")
-        .update({
-          player2_id: null,
-          player2_ready: false,
-          player2_secret: null,
-        })
-        .eq("room_code", roomCode);
-
-      if (error) throw error;
-      return true;
-    }
+export type RematchAction = "offer" | "accept" | "decline";
 
-    // If game is active, declare the other player as winner
-    if (room.game_started && !room.winner) {
-      const winner = playerNumber === 1 ? "2" : "1";
-      console.log("🏆 leaveGame: Declaring player", winner, "as winner");
-
-      const { error } = await supabase
-        .from("game_rooms")
-        .update({
-          winner,
-          current_turn_player: null,
-          turn_started_at: null,
-        })
-        .eq("room_code", roomCode)
-        .is("winner", null);
-
-      if (error) throw error;
-
-      // Update stats for the game
-      await updateGameStats(roomCode);
-      return true;
-    }
+// Offer, accept or decline a rematch of a finished room. Accepting returns the
+// new room's code.
+export const respondToRematch = async (
+  roomCode: string,
+  action: RematchAction
+): Promise<string | null> => {
+  try {
+    const { rematchRoomCode } = await roomRequest<{
+      rematchRoomCode?: string;
+    }>(`/${roomCode}/rematch`, {
+      method: "POST",
+      body: JSON.stringify({ action }),
+    });
+    return rematchRoomCode ?? null;
+  } catch (error) {
+    console.error("Error answering rematch:", error);
+    throw error;
+  }
+};
 
-    // If game is already over, just allow leaving
-    if (room.winner) {
-      console.log("✅ leaveGame: Game already over, allowing exit");
-      return true;
-    }
+// Finished rooms of a rematch series, for the head-to-head score
+export const getSeriesRooms = async (seriesId: string): Promise<GameRoom[]> => {
+  const supabase = createClient();
 
-    return true;
-  } catch (error) {
-    console.error("❌ leaveGame: Error:", error);
-    return false;
+  const { data, error } = await supabase
+    .from("game_rooms")
+    .select(ROOM_SELECT)
+    .eq("series_id", seriesId)
+    .not("winner", "is", null)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching series:", error);
+    throw new Error(`Failed to load series: ${error.message}`);
   }
+
+  return (data ?? []) as unknown as GameRoom[];
 };
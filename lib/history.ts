@@ -0,0 +1,66 @@
+import type { GameRoom } from "@/lib/gameRoom";
+import { getPlayerNumber } from "@/lib/gameMachine";
+import { getRoomTimeControl, type Guess } from "@/lib/rules";
+
+// Turn-by-turn replay of a finished room, built from the stored guess lists.
+// Player 1 always moves first and turns alternate, so the two lists interleave.
+
+export interface ReplayMove {
+  playerNumber: 1 | 2;
+  guess: Guess;
+  // Both clocks after the move; null when the guess predates clock snapshots
+  clock: { player1: number; player2: number } | null;
+}
+
+export const buildReplay = (room: GameRoom): ReplayMove[] => {
+  const moves: ReplayMove[] = [];
+  const turns = Math.max(room.player1_guesses.length, room.player2_guesses.length);
+
+  for (let i = 0; i < turns; i++) {
+    for (const playerNumber of [1, 2] as const) {
+      const guess =
+        playerNumber === 1 ? room.player1_guesses[i] : room.player2_guesses[i];
+      if (guess) {
+        moves.push({ playerNumber, guess, clock: guess.clock ?? null });
+      }
+    }
+  }
+  return moves;
+};
+
+// Clocks before the first move
+export const getStartingClock = (room: GameRoom) => {
+  const { base } = getRoomTimeControl(room);
+  return { player1: base, player2: base };
+};
+
+export type GameOutcome = "won" | "lost" | "tie";
+
+export const getOutcome = (room: GameRoom, playerNumber: 1 | 2): GameOutcome =>
+  room.winner === "tie"
+    ? "tie"
+    : Number(room.winner) === playerNumber
+    ? "won"
+    : "lost";
+
+export interface SeriesScore {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// Head-to-head score over the finished rooms of a rematch series, from one
+// player's side. Seats swap between rematches, so match on the user id.
+export const getSeriesScore = (rooms: GameRoom[], userId: string): SeriesScore => {
+  const score = { wins: 0, losses: 0, ties: 0 };
+  for (const room of rooms) {
+    const playerNumber = getPlayerNumber(room, userId);
+    if (!playerNumber || !room.winner) continue;
+
+    const outcome = getOutcome(room, playerNumber);
+    if (outcome === "won") score.wins++;
+    else if (outcome === "lost") score.losses++;
+    else score.ties++;
+  }
+  return score;
+};
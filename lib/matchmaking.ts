@@ -0,0 +1,35 @@
+import type { GameRules, TimeControl } from "@/lib/rules";
+
+// Public matchmaking queue, shared by the /api/rooms/queue route and the
+// client. Players wait in matchmaking_queue under a key built from the time
+// control, rule variant and rated flag; only players with the same key are
+// paired.
+//
+// Waiting clients refresh their entry every QUEUE_HEARTBEAT_MS. An entry not
+// refreshed for QUEUE_STALE_MS belongs to a player who went away and is never
+// paired; an entry older than QUEUE_TIMEOUT_MS gives up.
+
+export const QUEUE_HEARTBEAT_MS = 10_000;
+export const QUEUE_STALE_MS = 30_000;
+export const QUEUE_TIMEOUT_MS = 5 * 60_000;
+
+export type QueueStatus =
+  | { status: "queued"; since: string }
+  | { status: "matched"; roomCode: string }
+  | { status: "timed_out" };
+
+export const getQueueKey = (
+  timeControl: TimeControl,
+  rules: GameRules,
+  rated: boolean
+): string =>
+  [
+    timeControl.mode,
+    timeControl.base,
+    timeControl.bonus,
+    rules.codeLength,
+    rules.allowZero,
+    rules.allowRepeats,
+    rules.feedback,
+    rated ? "rated" : "casual",
+  ].join(":");
@@ -0,0 +1,26 @@
+import { getAccessToken } from "@/utils/supabase/client";
+
+// Ask the server to notify the recipient of an invite or friend request the
+// client just inserted. Best effort: the invite or request stands either way.
+export const requestNotification = async (
+  type: "invite" | "friend_request",
+  id: number
+): Promise<void> => {
+  const token = getAccessToken();
+  try {
+    const response = await fetch("/api/notifications", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ type, id }),
+    });
+
+    if (!response.ok) {
+      console.error("Notification request failed:", response.status);
+    }
+  } catch (error) {
+    console.error("Error requesting notification:", error);
+  }
+};
@@ -0,0 +1,230 @@
+import { createAdminClient } from "@/utils/supabase/admin";
+import { minikitConfig } from "@/minikit.config";
+import type { GameRoom } from "@/lib/gameRoom";
+import { getOutcome } from "@/lib/history";
+import { getRoomTimeControl } from "@/lib/rules";
+import type { NotificationDetails } from "@/lib/webhook";
+
+// Farcaster mini app notifications, sent from the route handlers. Each row in
+// notification_tokens holds the endpoint and token a user's Farcaster client
+// issued for this app; /api/webhook keeps them in sync.
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// Give up on a client endpoint that doesn't answer in time
+const SEND_TIMEOUT_MS = 5000;
+
+export interface AppNotification {
+  // Stable per event: clients drop repeats of the same id for 24 hours, so a
+  // retried request doesn't notify twice
+  id: string;
+  title: string; // up to 32 characters
+  body: string; // up to 128 characters
+  targetUrl?: string; // defaults to the app home
+}
+
+// Link that opens a room in the app
+export const roomUrl = (roomCode: string): string =>
+  `${minikitConfig.miniapp.homeUrl}/?room=${roomCode}`;
+
+// A client (identified by its app key) enabled notifications for the user
+export const saveNotificationToken = async (
+  supabase: AdminClient,
+  fid: string,
+  appKey: string,
+  details: NotificationDetails
+): Promise<void> => {
+  const { error } = await supabase.from("notification_tokens").upsert(
+    {
+      fid,
+      app_key: appKey,
+      url: details.url,
+      token: details.token,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "fid,app_key" }
+  );
+
+  if (error) {
+    console.error("Error saving notification token:", error);
+    throw error;
+  }
+};
+
+// The client disabled notifications or removed the app
+export const removeNotificationToken = async (
+  supabase: AdminClient,
+  fid: string,
+  appKey: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from("notification_tokens")
+    .delete()
+    .eq("fid", fid)
+    .eq("app_key", appKey);
+
+  if (error) {
+    console.error("Error removing notification token:", error);
+    throw error;
+  }
+};
+
+// Send to every client where the user enabled notifications. Never throws: a
+// failed notification must not fail the request that triggered it. Callers in
+// the route handlers run it with after() so the response doesn't wait on it.
+export const sendNotification = async (
+  supabase: AdminClient,
+  fid: string,
+  notification: AppNotification
+): Promise<void> => {
+  const { data: rows, error } = await supabase
+    .from("notification_tokens")
+    .select("url, token")
+    .eq("fid", fid);
+
+  if (error) {
+    console.error("Error loading notification tokens:", error);
+    return;
+  }
+
+  for (const { url, token } of rows ?? []) {
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+        body: JSON.stringify({
+          notificationId: notification.id,
+          title: notification.title,
+          body: notification.body,
+          targetUrl: notification.targetUrl ?? minikitConfig.miniapp.homeUrl,
+          tokens: [token],
+        }),
+      });
+
+      if (!response.ok) {
+        console.error(
+          "Notification rejected:",
+          response.status,
+          await response.text()
+        );
+        continue;
+      }
+
+      // The client reports tokens it no longer accepts; forget them
+      const { result } = await response.json();
+      if (result?.invalidTokens?.includes(token)) {
+        await supabase
+          .from("notification_tokens")
+          .delete()
+          .eq("fid", fid)
+          .eq("token", token);
+      }
+    } catch (error) {
+      console.error("Error sending notification:", error);
+    }
+  }
+};
+
+// Correspondence players aren't watching the room, so tell the player to move
+// that it's their turn. `room` is the room after the move.
+export const notifyTurn = async (
+  supabase: AdminClient,
+  room: GameRoom,
+  playerNumber: 1 | 2
+): Promise<void> => {
+  if (getRoomTimeControl(room).mode !== "correspondence") return;
+  if (playerNumber === 2 && room.bot_level) return;
+
+  const fid = playerNumber === 1 ? room.player1_id : room.player2_id;
+  if (!fid) return;
+
+  const moves = room.player1_guesses.length + room.player2_guesses.length;
+  await sendNotification(supabase, fid, {
+    id: `turn-${room.room_code}-${moves}`,
+    title: "Your move",
+    body: `It's your turn in Guess4 game ${room.room_code}.`,
+    targetUrl: roomUrl(room.room_code),
+  });
+};
+
+// A friend invited the user to a room
+export const notifyInvite = async (
+  supabase: AdminClient,
+  invite: { id: number; room_code: string; to_user_id: string },
+  fromName: string
+): Promise<void> =>
+  sendNotification(supabase, invite.to_user_id, {
+    id: `invite-${invite.id}`,
+    title: "Game invite",
+    body: `${fromName} invited you to a game of Guess4.`,
+    targetUrl: roomUrl(invite.room_code),
+  });
+
+export const notifyFriendRequest = async (
+  supabase: AdminClient,
+  request: { id: number; to_user_id: string },
+  fromName: string
+): Promise<void> =>
+  sendNotification(supabase, request.to_user_id, {
+    id: `friend-request-${request.id}`,
+    title: "Friend request",
+    body: `${fromName} sent you a friend request.`,
+    targetUrl: `${minikitConfig.miniapp.homeUrl}/friends`,
+  });
+
+const OUTCOME_TITLES = { won: "You won!", lost: "You lost", tie: "It's a tie" };
+
+// Tell each human player how a finished room ended, except the player whose
+// action ended it (they are looking at the result already)
+export const notifyGameEnded = async (
+  supabase: AdminClient,
+  room: GameRoom,
+  actorId?: string | null
+): Promise<void> => {
+  if (!room.winner) return;
+
+  for (const playerNumber of [1, 2] as const) {
+    const fid = playerNumber === 1 ? room.player1_id : room.player2_id;
+    if (!fid || fid === actorId) continue;
+    if (playerNumber === 2 && room.bot_level) continue;
+
+    await sendNotification(supabase, fid, {
+      id: `ended-${room.room_code}`,
+      title: OUTCOME_TITLES[getOutcome(room, playerNumber)],
+      body: `Guess4 game ${room.room_code} is over. Tap to see the replay.`,
+      targetUrl: `${minikitConfig.miniapp.homeUrl}/history/${room.room_code}`,
+    });
+  }
+};
+
+// The opponent offered a rematch of a finished room
+export const notifyRematch = async (
+  supabase: AdminClient,
+  room: GameRoom,
+  playerNumber: 1 | 2,
+  fromName: string
+): Promise<void> => {
+  const fid = playerNumber === 1 ? room.player1_id : room.player2_id;
+  if (!fid) return;
+
+  await sendNotification(supabase, fid, {
+    id: `rematch-${room.room_code}`,
+    title: "Rematch?",
+    body: `${fromName} wants a rematch of Guess4 game ${room.room_code}.`,
+    targetUrl: roomUrl(room.room_code),
+  });
+};
+
+// Matchmaking paired a waiting player, who may have left the app meanwhile
+export const notifyMatchFound = async (
+  supabase: AdminClient,
+  fid: string,
+  roomCode: string
+): Promise<void> =>
+  sendNotification(supabase, fid, {
+    id: `match-${roomCode}`,
+    title: "Opponent found",
+    body: `Your Guess4 game ${roomCode} is ready. Set your secret!`,
+    targetUrl: roomUrl(roomCode),
+  });
@@ -0,0 +1,71 @@
+import { isDefaultRules, type GameRules } from "@/lib/rules";
+
+// Single-player practice stats, kept in localStorage so practice works offline
+// and never touches game_rooms or user_stats. Mirrors the user_stats shape:
+// guess-count stats only include games played with the default rules.
+
+const PRACTICE_STATS_KEY = "practice_stats";
+
+export interface PracticeStats {
+  total_games: number;
+  games_won: number; // solved before the clock ran out
+  games_lost: number; // timed out or gave up
+  classic_games: number;
+  total_guesses: number;
+  best_guess_count: number | null;
+  last_played_at: string | null;
+}
+
+export interface PracticeResult {
+  won: boolean;
+  guessCount: number;
+  rules: GameRules;
+}
+
+const EMPTY_STATS: PracticeStats = {
+  total_games: 0,
+  games_won: 0,
+  games_lost: 0,
+  classic_games: 0,
+  total_guesses: 0,
+  best_guess_count: null,
+  last_played_at: null,
+};
+
+export const getPracticeStats = (): PracticeStats => {
+  if (typeof window === "undefined") return EMPTY_STATS;
+
+  try {
+    const stored = localStorage.getItem(PRACTICE_STATS_KEY);
+    return stored ? { ...EMPTY_STATS, ...JSON.parse(stored) } : EMPTY_STATS;
+  } catch (error) {
+    console.error("Error reading practice stats:", error);
+    return EMPTY_STATS;
+  }
+};
+
+export const recordPracticeResult = (result: PracticeResult): PracticeStats => {
+  const stats = getPracticeStats();
+  const classic = isDefaultRules(result.rules);
+
+  const updated: PracticeStats = {
+    total_games: stats.total_games + 1,
+    games_won: stats.games_won + (result.won ? 1 : 0),
+    games_lost: stats.games_lost + (result.won ? 0 : 1),
+    classic_games: stats.classic_games + (classic ? 1 : 0),
+    total_guesses: stats.total_guesses + (classic ? result.guessCount : 0),
+    best_guess_count:
+      classic && result.won
+        ? Math.min(stats.best_guess_count ?? Infinity, result.guessCount)
+        : stats.best_guess_count,
+    last_played_at: new Date().toISOString(),
+  };
+
+  try {
+    localStorage.setItem(PRACTICE_STATS_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.error("Error saving practice stats:", error);
+  }
+
+  return updated;
+};
@@ -0,0 +1,108 @@
+import { createClient } from "@/utils/supabase/client";
+import type { RatingCategory } from "@/lib/rating";
+
+// Progress over time for the stats page, from user_game_history: one row per
+// finished two-player game with the player's stats and rating right after it.
+
+export interface GameHistoryEntry {
+  room_code: string;
+  result: "won" | "lost" | "tie";
+  rated: boolean;
+  category: RatingCategory;
+  guess_count: number | null; // default rules only
+  rating: number | null; // after the game, rated games only
+  rating_deviation: number | null;
+  total_games: number;
+  games_won: number;
+  played_at: string;
+}
+
+export type ProgressRange = "7d" | "30d" | "90d" | "all";
+
+export const PROGRESS_RANGES: {
+  range: ProgressRange;
+  label: string;
+  days: number | null;
+}[] = [
+  { range: "7d", label: "7 days", days: 7 },
+  { range: "30d", label: "30 days", days: 30 },
+  { range: "90d", label: "90 days", days: 90 },
+  { range: "all", label: "All time", days: null },
+];
+
+// Games per point of the rolling win rate and average guesses
+export const ROLLING_WINDOW = 10;
+
+export interface ChartPoint {
+  time: number; // ms since epoch
+  value: number;
+}
+
+// A user's finished games, oldest first
+export const getGameHistory = async (
+  userId: string
+): Promise<GameHistoryEntry[]> => {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("user_game_history")
+    .select(
+      "room_code, result, rated, category, guess_count, rating, rating_deviation, total_games, games_won, played_at"
+    )
+    .eq("user_id", userId)
+    .order("played_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching game history:", error);
+    throw new Error(`Failed to fetch game history: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+// Start of a range in ms, or null for all time
+export const getRangeStart = (range: ProgressRange, now: number): number | null => {
+  const days = PROGRESS_RANGES.find((r) => r.range === range)?.days ?? null;
+  return days === null ? null : now - days * 24 * 3600 * 1000;
+};
+
+// Drop points before the range. Rolling values are computed over the whole
+// history first, so the first points in a range still average full windows.
+export const inRange = (
+  points: ChartPoint[],
+  range: ProgressRange,
+  now: number
+): ChartPoint[] => {
+  const start = getRangeStart(range, now);
+  return start === null ? points : points.filter((p) => p.time >= start);
+};
+
+const toTime = (entry: GameHistoryEntry) => new Date(entry.played_at).getTime();
+
+// Rating after each rated game in the category
+export const getRatingSeries = (
+  entries: GameHistoryEntry[],
+  category: RatingCategory
+): ChartPoint[] =>
+  entries
+    .filter((e) => e.rated && e.category === category && e.rating !== null)
+    .map((e) => ({ time: toTime(e), value: e.rating as number }));
+
+// Win rate (%) over the last ROLLING_WINDOW games, after each game. Ties count
+// as games, not wins, as in user_stats.
+export const getRollingWinRate = (entries: GameHistoryEntry[]): ChartPoint[] =>
+  entries.map((entry, index) => {
+    const recent = entries.slice(Math.max(0, index - ROLLING_WINDOW + 1), index + 1);
+    const wins = recent.filter((e) => e.result === "won").length;
+    return { time: toTime(entry), value: (wins / recent.length) * 100 };
+  });
+
+// Average guesses per game over the last ROLLING_WINDOW games played with the
+// default rules
+export const getGuessTrend = (entries: GameHistoryEntry[]): ChartPoint[] => {
+  const classic = entries.filter((e) => e.guess_count !== null);
+  return classic.map((entry, index) => {
+    const recent = classic.slice(Math.max(0, index - ROLLING_WINDOW + 1), index + 1);
+    const total = recent.reduce((sum, e) => sum + (e.guess_count as number), 0);
+    return { time: toTime(entry), value: total / recent.length };
+  });
+};
@@ -0,0 +1,46 @@
+import type { TimeControl } from "@/lib/rules";
+
+// Skill ratings (Glicko-2), kept per time-control category. Rated games are
+// scored by update_ratings_after_game() in the database when they finish;
+// this module holds the shared category rule and display helpers.
+
+export type RatingCategory = "bullet" | "blitz" | "rapid" | "correspondence";
+
+export const RATING_CATEGORIES: { category: RatingCategory; label: string }[] = [
+  { category: "bullet", label: "Bullet" },
+  { category: "blitz", label: "Blitz" },
+  { category: "rapid", label: "Rapid" },
+  { category: "correspondence", label: "Correspondence" },
+];
+
+// Starting values for a player's first rated game in a category
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_RATING_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+
+// Ratings this uncertain are shown with a "?" (roughly the first handful of
+// games in a category)
+export const PROVISIONAL_DEVIATION = 110;
+
+// Bonus seconds are weighted by a long game's worth of moves
+const BONUS_MOVES = 20;
+
+// Category of a time control, by the clock time a game is expected to take.
+// Must match rating_category() in database/schema.sql.
+export const getRatingCategory = (control: TimeControl): RatingCategory => {
+  if (control.mode === "correspondence") return "correspondence";
+  const estimate = control.base + BONUS_MOVES * control.bonus;
+  if (estimate < 180) return "bullet";
+  if (estimate < 600) return "blitz";
+  return "rapid";
+};
+
+export const getRatingCategoryLabel = (category: RatingCategory): string =>
+  RATING_CATEGORIES.find((c) => c.category === category)?.label ?? category;
+
+export const isProvisional = (deviation: number): boolean =>
+  deviation > PROVISIONAL_DEVIATION;
+
+// "1623" or "1500?" while provisional
+export const formatRating = (rating: number, deviation: number): string =>
+  `${Math.round(rating)}${isProvisional(deviation) ? "?" : ""}`;
@@ -0,0 +1,149 @@
+import { after, NextResponse } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import type { GameRoom } from "@/lib/gameRoom";
+import {
+  expireClock,
+  type GameError,
+  type GameErrorCode,
+} from "@/lib/gameMachine";
+import { notifyGameEnded } from "@/lib/notifications";
+
+// Server-side I/O for the /api/rooms route handlers. Transitions themselves
+// live in lib/gameMachine.ts; this module loads rooms, applies the updates it
+// returns under the optimistic lock, and maps errors to HTTP responses.
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+const STATUS_BY_CODE: Record<GameErrorCode, number> = {
+  not_a_player: 403,
+  room_full: 409,
+  already_in_room: 409,
+  wrong_phase: 409,
+  not_your_turn: 409,
+  invalid_secret: 400,
+  invalid_guess: 400,
+  secret_missing: 409,
+  clock_running: 409,
+};
+
+export const errorResponse = (message: string, status: number) =>
+  NextResponse.json({ message }, { status });
+
+export const gameErrorResponse = (error: GameError) =>
+  NextResponse.json(
+    { message: error.message, code: error.code },
+    { status: STATUS_BY_CODE[error.code] }
+  );
+
+export const conflictResponse = () =>
+  NextResponse.json(
+    {
+      message: "Turn changed or conflict detected. Please try again.",
+      code: "conflict",
+    },
+    { status: 409 }
+  );
+
+// Parse a JSON body, treating an empty body as {}
+export const readBody = async <T extends object>(
+  request: Request
+): Promise<T | null> => {
+  const text = await request.text();
+  if (!text) return {} as T;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+};
+
+const fetchRoom = async (
+  supabase: AdminClient,
+  roomCode: string
+): Promise<GameRoom | null> => {
+  const { data, error } = await supabase
+    .from("game_rooms")
+    .select("*")
+    .eq("room_code", roomCode)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading room:", error);
+    throw error;
+  }
+
+  return data as GameRoom | null;
+};
+
+// Load a room for a transition. If the player to move has run out of time the
+// game is ended first, so late moves are rejected even when nobody claimed the
+// timeout (the resolve_flagged_rooms cron job covers rooms nobody touches).
+// `actorId` is the player to leave out of the game-ended notification when the
+// request itself is a timeout claim.
+export const loadRoom = async (
+  supabase: AdminClient,
+  roomCode: string,
+  actorId: string | null = null
+): Promise<GameRoom | null> => {
+  const room = await fetchRoom(supabase, roomCode);
+  if (!room) return null;
+
+  const expired = expireClock(room, Date.now());
+  if (!expired.ok) return room;
+
+  if (await saveRoom(supabase, room, expired.update)) {
+    await recordGameResult(supabase, roomCode, actorId);
+  }
+  // Reload either way: on a conflict someone else already changed the room
+  return fetchRoom(supabase, roomCode);
+};
+
+// Apply a transition's update if nobody else has changed the room since it was
+// loaded. Returns false on a version conflict.
+export const saveRoom = async (
+  supabase: AdminClient,
+  room: GameRoom,
+  update: Partial<GameRoom>
+): Promise<boolean> => {
+  if (Object.keys(update).length === 0) return true;
+
+  const { data, error } = await supabase
+    .from("game_rooms")
+    .update(update)
+    .eq("room_code", room.room_code)
+    .eq("version", room.version || 1)
+    .select("room_code");
+
+  if (error) {
+    console.error("Error saving room:", error);
+    throw error;
+  }
+
+  return !!data && data.length > 0;
+};
+
+// Record stats once a transition has produced a winner, then notify the
+// players who didn't cause the ending (`actorId`, when a player did). The
+// notifications go out after the response so a slow client can't hold it up.
+export const recordGameResult = async (
+  supabase: AdminClient,
+  roomCode: string,
+  actorId: string | null = null
+): Promise<void> => {
+  const { error } = await supabase.rpc("update_user_stats_after_game", {
+    p_room_code: roomCode,
+  });
+
+  if (error) {
+    console.error("Error updating stats:", error);
+  }
+
+  after(async () => {
+    try {
+      const room = await fetchRoom(supabase, roomCode);
+      if (room) await notifyGameEnded(supabase, room, actorId);
+    } catch (error) {
+      console.error("Error sending game ended notification:", error);
+    }
+  });
+};
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import {
+  chargeMove,
+  DEFAULT_RULES,
+  determineWinner,
+  evaluateGuess,
+  getFlaggedPlayer,
+  validateSecretNumber,
+  type Guess,
+  type RoomClock,
+  type TimeControl,
+} from "@/lib/rules";
+
+// A scored guess; only correctPositions matters for solving
+const guess = (number: string, correctPositions: number): Guess => ({
+  number,
+  correctDigits: correctPositions,
+  correctPositions,
+});
+
+// The mover's clock running since the epoch; `now` is then the elapsed ms
+const runningClock = (
+  timeControl: TimeControl,
+  remaining: number,
+  mover: 1 | 2 = 1
+): RoomClock => ({
+  time_control: timeControl,
+  player1_time_remaining: remaining,
+  player2_time_remaining: remaining,
+  current_turn_player: mover,
+  turn_started_at: new Date(0).toISOString(),
+  winner: null,
+});
+
+describe("evaluateGuess", () => {
+  it("scores an exact match", () => {
+    expect(evaluateGuess("1234", "1234")).toEqual({
+      correctDigits: 4,
+      correctPositions: 4,
+    });
+  });
+
+  it("counts placed digits in correctDigits in guess4 mode", () => {
+    expect(evaluateGuess("1243", "1234")).toEqual({
+      correctDigits: 4,
+      correctPositions: 2,
+    });
+  });
+
+  it("counts every repeated guess digit found in the secret in guess4 mode", () => {
+    expect(evaluateGuess("1111", "1234")).toEqual({
+      correctDigits: 4,
+      correctPositions: 1,
+    });
+  });
+
+  it("matches each secret digit once in bulls_cows mode", () => {
+    expect(evaluateGuess("1111", "1234", "bulls_cows")).toEqual({
+      correctDigits: 0,
+      correctPositions: 1,
+    });
+    expect(evaluateGuess("1122", "1212", "bulls_cows")).toEqual({
+      correctDigits: 2,
+      correctPositions: 2,
+    });
+  });
+
+  it("keeps a leading zero as a digit", () => {
+    expect(evaluateGuess("0123", "0321")).toEqual({
+      correctDigits: 4,
+      correctPositions: 2,
+    });
+    expect(evaluateGuess("0567", "1234")).toEqual({
+      correctDigits: 0,
+      correctPositions: 0,
+    });
+  });
+});
+
+describe("validateSecretNumber", () => {
+  it("rejects zero unless the rules allow it", () => {
+    expect(validateSecretNumber("0123", DEFAULT_RULES)).toBe("Cannot contain 0");
+    expect(
+      validateSecretNumber("0123", { ...DEFAULT_RULES, allowZero: true })
+    ).toBeNull();
+  });
+
+  it("rejects repeated digits unless the rules allow them", () => {
+    expect(validateSecretNumber("1123", DEFAULT_RULES)).toBe(
+      "Cannot have repeating digits"
+    );
+    expect(
+      validateSecretNumber("1123", { ...DEFAULT_RULES, allowRepeats: true })
+    ).toBeNull();
+  });
+
+  it("checks the code length", () => {
+    expect(validateSecretNumber("123", DEFAULT_RULES)).toBe(
+      "Must be exactly 4 digits"
+    );
+  });
+});
+
+describe("determineWinner", () => {
+  it("waits for player 2's equal turn after player 1 solves", () => {
+    const solve = guess("1234", 4);
+    expect(determineWinner(1, solve, [solve], [])).toBeNull();
+  });
+
+  it("ties when player 2 also solves on the equal turn", () => {
+    const p1 = [guess("1234", 4)];
+    const solve = guess("5678", 4);
+    expect(determineWinner(2, solve, [solve], p1)).toBe("tie");
+  });
+
+  it("gives player 1 the win when player 2 misses the equal turn", () => {
+    const p1 = [guess("1234", 4)];
+    const miss = guess("5679", 3);
+    expect(determineWinner(2, miss, [miss], p1)).toBe(1);
+  });
+
+  it("gives player 2 the win when player 1 hasn't solved", () => {
+    const p1 = [guess("1243", 2)];
+    const solve = guess("5678", 4);
+    expect(determineWinner(2, solve, [solve], p1)).toBe(2);
+  });
+
+  it("keeps playing while nobody has solved", () => {
+    const miss = guess("1243", 2);
+    expect(determineWinner(1, miss, [miss], [])).toBeNull();
+  });
+});
+
+describe("chargeMove", () => {
+  it("adds the increment after charging the elapsed time", () => {
+    const room = runningClock({ mode: "increment", base: 300, bonus: 5 }, 300);
+    expect(chargeMove(room, 1, 10_000)).toEqual({
+      player1_time_remaining: 295,
+      player2_time_remaining: 300,
+    });
+  });
+
+  it("gives back at most the delay", () => {
+    const room = runningClock({ mode: "delay", base: 300, bonus: 5 }, 300);
+    expect(chargeMove(room, 1, 10_000).player1_time_remaining).toBe(295);
+    expect(chargeMove(room, 1, 3_000).player1_time_remaining).toBe(300);
+  });
+
+  it("resets a correspondence clock to the per-move time", () => {
+    const room = runningClock(
+      { mode: "correspondence", base: 86400, bonus: 0 },
+      86400
+    );
+    expect(chargeMove(room, 1, 3600_000).player1_time_remaining).toBe(86400);
+  });
+
+  it("leaves the clocks alone for a player who isn't on move", () => {
+    const room = runningClock({ mode: "increment", base: 300, bonus: 5 }, 300);
+    expect(chargeMove(room, 2, 10_000)).toEqual({
+      player1_time_remaining: 300,
+      player2_time_remaining: 300,
+    });
+  });
+});
+
+describe("getFlaggedPlayer", () => {
+  // Player 1 solves on their second guess while player 2 has guessed once, so
+  // the game waits for player 2's last, equal turn on the clock
+  const p1Guesses = [guess("1243", 2), guess("1234", 4)];
+  const p2Guesses = [guess("5679", 3)];
+  const lastTurn: RoomClock = {
+    ...runningClock({ mode: "none", base: 300, bonus: 0 }, 30, 2),
+    winner: determineWinner(1, p1Guesses[1] as Guess, p1Guesses, p2Guesses),
+  };
+
+  it("leaves the game open for player 2's equal turn", () => {
+    expect(lastTurn.winner).toBeNull();
+  });
+
+  it("flags player 2 when the last turn runs out", () => {
+    expect(getFlaggedPlayer(lastTurn, 30_000)).toBe(2);
+  });
+
+  it("doesn't flag while time is left", () => {
+    expect(getFlaggedPlayer(lastTurn, 29_000)).toBeNull();
+  });
+
+  it("ends the game for player 1 if player 2 misses the equal turn in time", () => {
+    const miss = guess("5687", 2);
+    expect(determineWinner(2, miss, [...p2Guesses, miss], p1Guesses)).toBe(1);
+  });
+
+  it("ties if player 2 solves on the equal turn in time", () => {
+    const solve = guess("5678", 4);
+    expect(determineWinner(2, solve, [...p2Guesses, solve], p1Guesses)).toBe(
+      "tie"
+    );
+  });
+
+  it("doesn't flag a finished game", () => {
+    expect(getFlaggedPlayer({ ...lastTurn, winner: 1 }, 60_000)).toBeNull();
+  });
+});
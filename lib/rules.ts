@@ -0,0 +1,406 @@
+// Guess4 game rules.
+//
+// Framework-free: nothing here imports React or Supabase or reads the clock,
+// so the UI and the /api/rooms state machine share the same validation,
+// scoring, winner and clock logic. Callers pass `now` in explicitly.
+
+export type Winner = 1 | 2 | "tie" | null;
+
+export interface Guess {
+  number: string;
+  correctDigits: number;
+  correctPositions: number;
+  // Move timing, set by the server on room guesses from the same clock
+  // accounting that charges the move. Missing on older rooms and in practice
+  // games.
+  playedAt?: string; // ISO timestamp
+  thinkTimeMs?: number; // time since the turn started
+  clock?: { player1: number; player2: number }; // seconds left after the move
+}
+
+// How a guess is scored:
+// - "guess4": correctPositions = right digit in the right place, correctDigits
+//   = guessed digits that appear anywhere in the secret (includes the placed ones)
+// - "bulls_cows": correctPositions = bulls (right place), correctDigits = cows
+//   (right digit, wrong place), counted as multisets with no overlap
+export type FeedbackMode = "guess4" | "bulls_cows";
+
+// Room rule variant, stored as JSONB in game_rooms.rules
+export interface GameRules {
+  codeLength: number; // 3-6 digits
+  allowZero: boolean; // digit pool is 0-9 instead of 1-9
+  allowRepeats: boolean; // secrets may repeat digits
+  feedback: FeedbackMode;
+}
+
+// How each clock is topped up after a move:
+// - "increment": Fischer, `bonus` seconds added after every move
+// - "delay": Bronstein, time used on the move is given back up to `bonus` seconds
+// - "none": no bonus, the base time is all there is
+// - "correspondence": `base` seconds for every move (hours or days), no bank
+export type ClockMode = "increment" | "delay" | "none" | "correspondence";
+
+// Room time control, stored as JSONB in game_rooms.time_control
+export interface TimeControl {
+  mode: ClockMode;
+  base: number; // seconds on each clock, or per move for correspondence
+  bonus: number; // seconds of increment or delay, 0 for the other modes
+}
+
+// Clock columns of a room row (GameRoom satisfies this)
+export interface RoomClock {
+  time_control?: TimeControl | null;
+  player1_time_remaining?: number; // seconds
+  player2_time_remaining?: number; // seconds
+  current_turn_player?: 1 | 2 | null;
+  turn_started_at?: string | null;
+  winner: Winner;
+}
+
+export const CODE_LENGTHS = [3, 4, 5, 6];
+export const FEEDBACK_MODES: FeedbackMode[] = ["guess4", "bulls_cows"];
+
+export const DEFAULT_RULES: GameRules = {
+  codeLength: 4,
+  allowZero: false,
+  allowRepeats: false,
+  feedback: "guess4",
+};
+
+export const DEFAULT_TIME_LIMIT = 300; // seconds
+export const CLOCK_MODES: ClockMode[] = ["increment", "delay", "none", "correspondence"];
+export const MAX_BONUS = 60; // seconds
+export const MAX_CORRESPONDENCE_TIME = 14 * 24 * 3600; // two weeks per move
+
+// 5 minutes plus 5 seconds a move, the original fixed clock
+export const DEFAULT_TIME_CONTROL: TimeControl = {
+  mode: "increment",
+  base: DEFAULT_TIME_LIMIT,
+  bonus: 5,
+};
+
+export const opponentOf = (playerNumber: 1 | 2): 1 | 2 =>
+  playerNumber === 1 ? 2 : 1;
+
+// Parse a rules value from a request body or a room row, falling back to the
+// defaults for anything missing. Returns null if a field is invalid.
+export const parseRules = (input: unknown): GameRules | null => {
+  if (input === null || input === undefined) return DEFAULT_RULES;
+  if (typeof input !== "object") return null;
+
+  const { codeLength, allowZero, allowRepeats, feedback } =
+    input as Partial<GameRules>;
+  const rules: GameRules = {
+    codeLength: codeLength ?? DEFAULT_RULES.codeLength,
+    allowZero: allowZero ?? DEFAULT_RULES.allowZero,
+    allowRepeats: allowRepeats ?? DEFAULT_RULES.allowRepeats,
+    feedback: feedback ?? DEFAULT_RULES.feedback,
+  };
+
+  if (
+    !CODE_LENGTHS.includes(rules.codeLength) ||
+    typeof rules.allowZero !== "boolean" ||
+    typeof rules.allowRepeats !== "boolean" ||
+    !FEEDBACK_MODES.includes(rules.feedback)
+  ) {
+    return null;
+  }
+  return rules;
+};
+
+// Rules a room is played with. Rooms created before variants existed have no
+// rules column value and use the defaults.
+export const getRoomRules = (room: { rules?: GameRules | null }): GameRules =>
+  parseRules(room.rules) ?? DEFAULT_RULES;
+
+// Parse a time control from a request body or a room row. Missing input gives
+// the default; returns null if the value is invalid.
+export const parseTimeControl = (input: unknown): TimeControl | null => {
+  if (input === null || input === undefined) return DEFAULT_TIME_CONTROL;
+  if (typeof input !== "object") return null;
+
+  const { mode, base, bonus = 0 } = input as Partial<TimeControl>;
+  if (!mode || !CLOCK_MODES.includes(mode)) return null;
+  if (!Number.isInteger(base) || !Number.isInteger(bonus)) return null;
+
+  const control = { mode, base, bonus } as TimeControl;
+  const hasBonus = mode === "increment" || mode === "delay";
+  const maxBase = mode === "correspondence" ? MAX_CORRESPONDENCE_TIME : 3600;
+  if (
+    control.base <= 0 ||
+    control.base > maxBase ||
+    control.bonus < 0 ||
+    control.bonus > (hasBonus ? MAX_BONUS : 0)
+  ) {
+    return null;
+  }
+  return control;
+};
+
+// Time control a room is played with. Rooms from before time controls use the
+// original 5+5.
+export const getRoomTimeControl = (room: {
+  time_control?: TimeControl | null;
+}): TimeControl => parseTimeControl(room.time_control) ?? DEFAULT_TIME_CONTROL;
+
+const formatMinutes = (seconds: number): string =>
+  seconds % 60 === 0 ? String(seconds / 60) : (seconds / 60).toFixed(1);
+
+const formatDuration = (seconds: number): string =>
+  seconds % 86400 === 0
+    ? `${seconds / 86400} day${seconds === 86400 ? "" : "s"}`
+    : seconds % 3600 === 0
+    ? `${seconds / 3600} hour${seconds === 3600 ? "" : "s"}`
+    : `${formatMinutes(seconds)} min`;
+
+// Short label in the usual notation: "3+2" (increment), "3 d2" (delay),
+// "5+0" (none) or "1 day/move" (correspondence)
+export const formatTimeControl = (control: TimeControl): string => {
+  switch (control.mode) {
+    case "increment":
+      return `${formatMinutes(control.base)}+${control.bonus}`;
+    case "delay":
+      return `${formatMinutes(control.base)} d${control.bonus}`;
+    case "none":
+      return `${formatMinutes(control.base)}+0`;
+    case "correspondence":
+      return `${formatDuration(control.base)}/move`;
+  }
+};
+
+export const isDefaultRules = (rules: GameRules): boolean =>
+  rules.codeLength === DEFAULT_RULES.codeLength &&
+  rules.allowZero === DEFAULT_RULES.allowZero &&
+  rules.allowRepeats === DEFAULT_RULES.allowRepeats &&
+  rules.feedback === DEFAULT_RULES.feedback;
+
+// Digits a secret may use
+export const getDigitPool = (rules: GameRules): number[] =>
+  rules.allowZero ? [0, 1, 2, 3, 4, 5, 6, 7, 8, 9] : [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+// Short description for pickers and room headers, e.g. "4 digits, 1-9, no repeats"
+export const describeRules = (rules: GameRules): string =>
+  [
+    `${rules.codeLength} digits`,
+    rules.allowZero ? "0-9" : "1-9",
+    rules.allowRepeats ? "repeats allowed" : "no repeats",
+    ...(rules.feedback === "bulls_cows" ? ["bulls & cows"] : []),
+  ].join(", ");
+
+// Random valid secret. `random` is injectable so callers can seed it.
+export const generateSecret = (
+  rules: GameRules,
+  random: () => number = Math.random
+): string => {
+  const pool = getDigitPool(rules);
+  let secret = "";
+  while (secret.length < rules.codeLength) {
+    const digit = String(pool[Math.floor(random() * pool.length)]);
+    if (rules.allowRepeats || !secret.includes(digit)) {
+      secret += digit;
+    }
+  }
+  return secret;
+};
+
+// Validate a secret against the room's rules
+export const validateSecretNumber = (
+  num: string,
+  rules: GameRules
+): string | null => {
+  if (num.length !== rules.codeLength) {
+    return `Must be exactly ${rules.codeLength} digits`;
+  }
+  if (!/^\d+$/.test(num)) return "Must contain only digits";
+  if (!rules.allowZero && num.includes("0")) return "Cannot contain 0";
+  if (!rules.allowRepeats && new Set(num).size !== num.length) {
+    return "Cannot have repeating digits";
+  }
+  return null;
+};
+
+// Validate guess - only check length and digits, allow 0 and repeats
+export const validateGuess = (guess: string, rules: GameRules): string | null => {
+  if (guess.length !== rules.codeLength) {
+    return `Must be exactly ${rules.codeLength} digits`;
+  }
+  if (!/^\d+$/.test(guess)) return "Must contain only digits";
+  return null;
+};
+
+// Calculate feedback for a guess in the given mode (see FeedbackMode)
+export const evaluateGuess = (
+  guess: string,
+  secret: string,
+  feedback: FeedbackMode = "guess4"
+): { correctDigits: number; correctPositions: number } => {
+  let correctPositions = 0;
+  for (let i = 0; i < secret.length; i++) {
+    if (guess[i] === secret[i]) {
+      correctPositions++;
+    }
+  }
+
+  if (feedback === "bulls_cows") {
+    // Each secret digit can be matched once: total matches are the per-digit
+    // minimum of both counts, and cows are the matches that aren't bulls
+    const secretCounts = new Map<string, number>();
+    for (const digit of secret) {
+      secretCounts.set(digit, (secretCounts.get(digit) ?? 0) + 1);
+    }
+    let matches = 0;
+    for (const digit of guess) {
+      const remaining = secretCounts.get(digit) ?? 0;
+      if (remaining > 0) {
+        matches++;
+        secretCounts.set(digit, remaining - 1);
+      }
+    }
+    return { correctDigits: matches - correctPositions, correctPositions };
+  }
+
+  // Every guessed digit found anywhere in the secret counts, including
+  // repeats in the guess and digits that are also correctly placed
+  let correctDigits = 0;
+  for (const digit of guess) {
+    if (secret.includes(digit)) {
+      correctDigits++;
+    }
+  }
+
+  return { correctDigits, correctPositions };
+};
+
+const plural = (count: number, word: string): string =>
+  `${count} ${word}${count !== 1 ? "s" : ""}`;
+
+// Feedback text for a guess, e.g. "2 digits, 1 position" or "1 bull, 2 cows"
+export const formatFeedback = (guess: Guess, rules: GameRules): string =>
+  rules.feedback === "bulls_cows"
+    ? `${plural(guess.correctPositions, "bull")}, ${plural(guess.correctDigits, "cow")}`
+    : `${plural(guess.correctDigits, "digit")}, ${plural(guess.correctPositions, "position")}`;
+
+// Every position correct, whatever the room's code length
+export const isSolved = (guess: Guess): boolean =>
+  guess.correctPositions === guess.number.length;
+
+// Determine winner only if both players have had equal turns. Player 1 always
+// moves first, so a player 1 solve waits for player 2's reply, which can tie.
+export const determineWinner = (
+  playerNumber: 1 | 2,
+  guess: Guess,
+  updatedGuesses: Guess[],
+  opponentGuesses: Guess[]
+): Winner => {
+  const opponentGotItCorrect = opponentGuesses.some(isSolved);
+
+  if (isSolved(guess)) {
+    if (playerNumber === 1) {
+      // Player 1 wins only if Player 2 has already had the same number of turns
+      return opponentGuesses.length >= updatedGuesses.length ? 1 : null;
+    }
+    // Player 2 always finishes after or at the same time as Player 1
+    return opponentGotItCorrect ? "tie" : 2;
+  }
+
+  // Opponent got it correct and this player just finished their equal turn
+  if (opponentGotItCorrect) {
+    return opponentOf(playerNumber);
+  }
+
+  return null;
+};
+
+// Milliseconds since the current turn started
+export const getTurnElapsedMs = (room: RoomClock, now: number): number =>
+  room.turn_started_at
+    ? Math.max(0, now - new Date(room.turn_started_at).getTime())
+    : 0;
+
+// Time remaining for a player at `now`, accounting for a running clock
+export const getTimeRemaining = (
+  room: RoomClock,
+  playerNumber: 1 | 2,
+  now: number
+): number => {
+  const baseTime =
+    playerNumber === 1
+      ? room.player1_time_remaining ?? DEFAULT_TIME_LIMIT
+      : room.player2_time_remaining ?? DEFAULT_TIME_LIMIT;
+
+  if (
+    room.current_turn_player === playerNumber &&
+    room.turn_started_at &&
+    !room.winner
+  ) {
+    const elapsedSeconds = Math.floor(getTurnElapsedMs(room, now) / 1000);
+    return Math.max(0, baseTime - elapsedSeconds);
+  }
+
+  return baseTime;
+};
+
+// Both clocks after `playerNumber` moves at `now`: the elapsed time is charged
+// to the mover, then the room's time control tops the clock up
+export const chargeMove = (
+  room: RoomClock,
+  playerNumber: 1 | 2,
+  now: number
+): { player1_time_remaining: number; player2_time_remaining: number } => {
+  const clocks = {
+    player1_time_remaining: room.player1_time_remaining ?? DEFAULT_TIME_LIMIT,
+    player2_time_remaining: room.player2_time_remaining ?? DEFAULT_TIME_LIMIT,
+  };
+
+  if (room.turn_started_at && room.current_turn_player === playerNumber) {
+    const control = getRoomTimeControl(room);
+    const before =
+      playerNumber === 1
+        ? clocks.player1_time_remaining
+        : clocks.player2_time_remaining;
+    const left = getTimeRemaining(room, playerNumber, now);
+
+    let remaining = left;
+    if (control.mode === "increment") {
+      remaining = left + control.bonus;
+    } else if (control.mode === "delay") {
+      remaining = left + Math.min(before - left, control.bonus);
+    } else if (control.mode === "correspondence") {
+      remaining = control.base;
+    }
+
+    if (playerNumber === 1) {
+      clocks.player1_time_remaining = remaining;
+    } else {
+      clocks.player2_time_remaining = remaining;
+    }
+  }
+
+  return clocks;
+};
+
+// The player to move if their clock has run out at `now`, otherwise null.
+// The opponent wins on time, including on player 2's last equal turn after
+// player 1 has already solved.
+export const getFlaggedPlayer = (room: RoomClock, now: number): 1 | 2 | null => {
+  const mover = room.current_turn_player;
+  if (!mover || room.winner) return null;
+  return getTimeRemaining(room, mover, now) <= 0 ? mover : null;
+};
+
+// Format a clock as M:SS, or with hours and days for correspondence clocks
+export const formatTime = (seconds: number): string => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}:${pad(mins)}:${pad(secs)}`;
+  return `${mins}:${pad(secs)}`;
+};
+
+// Format a move's think time, e.g. "4.2s"
+export const formatThinkTime = (ms: number): string =>
+  ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : formatTime(Math.round(ms / 1000));
@@ -0,0 +1,87 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+
+// Server-only helpers for the Supabase session JWT minted by /api/auth.
+//
+// The token is signed with the project's JWT secret, so PostgREST and Realtime
+// accept it as an `authenticated` session and RLS policies can read the
+// Farcaster FID from `auth.jwt() ->> 'sub'`. The /api/rooms route handlers
+// verify the same token to identify the caller.
+
+const SESSION_TTL_SECONDS = 60 * 60 * 24; // 24 hours
+
+const base64url = (input: Buffer | string): string =>
+  Buffer.from(input).toString("base64url");
+
+// The server can't mint or check sessions without the JWT secret
+export class SessionConfigError extends Error {
+  constructor() {
+    super("Server misconfigured: SUPABASE_JWT_SECRET is not set");
+    this.name = "SessionConfigError";
+  }
+}
+
+const getJwtSecret = (): string => {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new SessionConfigError();
+  }
+  return secret;
+};
+
+const sign = (data: string): string =>
+  createHmac("sha256", getJwtSecret()).update(data).digest("base64url");
+
+// Mint a Supabase-compatible HS256 JWT whose subject is the FID. Throws a
+// SessionConfigError if SUPABASE_JWT_SECRET is missing.
+export const createSessionToken = (
+  fid: string
+): { token: string; expiresAt: number } => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + SESSION_TTL_SECONDS;
+
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({
+      sub: fid,
+      role: "authenticated",
+      aud: "authenticated",
+      iat: issuedAt,
+      exp: expiresAt,
+    })
+  );
+
+  const signature = sign(`${header}.${payload}`);
+  return { token: `${header}.${payload}.${signature}`, expiresAt };
+};
+
+// Verify a session token and return its FID, or null if invalid or expired.
+// A missing secret throws (SessionConfigError) rather than rejecting everyone.
+export const verifySessionToken = (token: string): string | null => {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (typeof claims.sub !== "string") return null;
+    if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return claims.sub;
+  } catch {
+    return null;
+  }
+};
+
+// Read the caller's FID from the request's `Authorization: Bearer` header
+export const getRequestUserId = (request: NextRequest): string | null => {
+  const authorization = request.headers.get("Authorization");
+  if (!authorization || !authorization.startsWith("Bearer ")) return null;
+  return verifySessionToken(authorization.split(" ")[1] as string);
+};
@@ -0,0 +1,197 @@
+import {
+  evaluateGuess,
+  getDigitPool,
+  type GameRules,
+  type Guess,
+} from "@/lib/rules";
+
+// Code-breaking helpers shared by the bot and the notepad assistant. Pure: the
+// caller passes the rules, the guesses made so far and a random source.
+
+// Upper bounds for the entropy search so a move stays fast even on the larger
+// variants (6 digits with zeros and repeats has a million codes)
+const MAX_ENTROPY_GUESSES = 200;
+const MAX_ENTROPY_SECRETS = 1000;
+
+// Every secret the rules allow
+export const getAllCodes = (rules: GameRules): string[] => {
+  const pool = getDigitPool(rules).map(String);
+  let codes = [""];
+  for (let position = 0; position < rules.codeLength; position++) {
+    const next: string[] = [];
+    for (const prefix of codes) {
+      for (const digit of pool) {
+        if (rules.allowRepeats || !prefix.includes(digit)) {
+          next.push(prefix + digit);
+        }
+      }
+    }
+    codes = next;
+  }
+  return codes;
+};
+
+// Whether `code` would have produced exactly the recorded feedback for every guess
+export const isConsistent = (
+  code: string,
+  guesses: Guess[],
+  rules: GameRules
+): boolean =>
+  guesses.every((guess) => {
+    const feedback = evaluateGuess(guess.number, code, rules.feedback);
+    return (
+      feedback.correctPositions === guess.correctPositions &&
+      feedback.correctDigits === guess.correctDigits
+    );
+  });
+
+// Secrets still possible after the given guesses
+export const getCandidates = (rules: GameRules, guesses: Guess[]): string[] =>
+  getAllCodes(rules).filter((code) => isConsistent(code, guesses, rules));
+
+const pickRandom = <T>(items: T[], random: () => number): T =>
+  items[Math.floor(random() * items.length)] as T;
+
+// Up to `size` items drawn without replacement. Lists much larger than the
+// sample are drawn from by index, so a million candidates are never copied.
+const sample = <T>(items: T[], size: number, random: () => number): T[] => {
+  if (items.length <= size) return items;
+  if (items.length > 4 * size) {
+    const picked = new Set<number>();
+    while (picked.size < size) {
+      picked.add(Math.floor(random() * items.length));
+    }
+    return Array.from(picked, (index) => items[index] as T);
+  }
+  const copy = [...items];
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(random() * (copy.length - i));
+    [copy[i], copy[j]] = [copy[j] as T, copy[i] as T];
+  }
+  return copy.slice(0, size);
+};
+
+// Expected information (in bits) from playing `guess` against the candidates:
+// the entropy of how the candidates split by feedback
+export const getGuessEntropy = (
+  guess: string,
+  candidates: string[],
+  rules: GameRules
+): number => {
+  const buckets = new Map<string, number>();
+  for (const secret of candidates) {
+    const { correctDigits, correctPositions } = evaluateGuess(
+      guess,
+      secret,
+      rules.feedback
+    );
+    const key = `${correctPositions}:${correctDigits}`;
+    buckets.set(key, (buckets.get(key) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of buckets.values()) {
+    const p = count / candidates.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+};
+
+// Candidate with the highest expected information when scored against
+// `secrets`. Ties go to the first one found, so results are stable for a given
+// random source.
+const searchEntropyGuess = (
+  candidates: string[],
+  secrets: string[],
+  rules: GameRules,
+  random: () => number
+): { guess: string; entropy: number } => {
+  let best = { guess: candidates[0] as string, entropy: -1 };
+  for (const guess of sample(candidates, MAX_ENTROPY_GUESSES, random)) {
+    const entropy = getGuessEntropy(guess, secrets, rules);
+    if (entropy > best.entropy) {
+      best = { guess, entropy };
+    }
+  }
+  return best;
+};
+
+// Candidate with the highest expected information
+export const pickEntropyGuess = (
+  candidates: string[],
+  rules: GameRules,
+  random: () => number = Math.random
+): string => {
+  if (candidates.length <= 2) return candidates[0] as string;
+
+  const secrets = sample(candidates, MAX_ENTROPY_SECRETS, random);
+  return searchEntropyGuess(candidates, secrets, rules, random).guess;
+};
+
+export interface GuessComparison {
+  entropy: number; // bits expected from the guess that was played
+  bestGuess: string;
+  bestEntropy: number;
+}
+
+// Information from `guess` next to the solver's pick, both measured against
+// the same sample of candidates so the numbers are comparable
+export const compareWithBestGuess = (
+  guess: string,
+  candidates: string[],
+  rules: GameRules,
+  random: () => number = Math.random
+): GuessComparison => {
+  if (candidates.length === 0) {
+    return { entropy: 0, bestGuess: guess, bestEntropy: 0 };
+  }
+
+  const secrets = sample(candidates, MAX_ENTROPY_SECRETS, random);
+  const best = searchEntropyGuess(candidates, secrets, rules, random);
+  return {
+    entropy: getGuessEntropy(guess, secrets, rules),
+    bestGuess: best.guess,
+    bestEntropy: best.entropy,
+  };
+};
+
+// Random candidate consistent with every guess so far
+export const pickConsistentGuess = (
+  candidates: string[],
+  random: () => number = Math.random
+): string => pickRandom(candidates, random);
+
+export interface CandidateSummary {
+  positions: string[][]; // digits still possible at each position
+  confirmed: string[]; // digits that appear in every candidate
+  eliminated: string[]; // digits from the pool that appear in none
+}
+
+// What the remaining candidates agree on, for the notepad assistant. A
+// position is solved when only one digit is still possible there.
+export const summarizeCandidates = (
+  candidates: string[],
+  rules: GameRules
+): CandidateSummary => {
+  const positions = Array.from(
+    { length: rules.codeLength },
+    () => new Set<string>()
+  );
+  const seen = new Set<string>();
+  const pool = getDigitPool(rules).map(String);
+  let confirmed = pool;
+
+  for (const code of candidates) {
+    for (let i = 0; i < code.length; i++) {
+      positions[i]?.add(code[i] as string);
+      seen.add(code[i] as string);
+    }
+    confirmed = confirmed.filter((digit) => code.includes(digit));
+  }
+
+  return {
+    positions: positions.map((digits) => pool.filter((d) => digits.has(d))),
+    confirmed: candidates.length > 0 ? confirmed : [],
+    eliminated: pool.filter((digit) => !seen.has(digit)),
+  };
+};
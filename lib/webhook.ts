@@ -0,0 +1,195 @@
+import { createPublicKey, verify } from "crypto";
+import { createPublicClient, http, parseAbi, type Hex } from "viem";
+import { optimism } from "viem/chains";
+
+// Server-only verification of the events Farcaster clients POST to
+// /api/webhook when a user adds or removes the mini app or toggles its
+// notifications.
+//
+// Each event is a JSON Farcaster Signature: base64url `header`, `payload` and
+// `signature`. The header names the user's FID and the app key (an Ed25519
+// signer the client holds for that user); the signature covers
+// `${header}.${payload}`. The key must be registered to the FID in the
+// onchain Key Registry, otherwise anyone could sign events for any FID.
+
+export interface NotificationDetails {
+  url: string; // the client's notification endpoint
+  token: string;
+}
+
+// Older clients send the frame_* names, newer ones miniapp_*
+export type MiniAppEvent =
+  | {
+      event: "frame_added" | "miniapp_added";
+      notificationDetails?: NotificationDetails;
+    }
+  | { event: "frame_removed" | "miniapp_removed" }
+  | { event: "notifications_enabled"; notificationDetails: NotificationDetails }
+  | { event: "notifications_disabled" };
+
+export type WebhookResult =
+  | { ok: true; fid: string; appKey: Hex; event: MiniAppEvent }
+  | { ok: false; message: string; status: number };
+
+const KEY_REGISTRY = "0x00000000Fc1237824fb747aBDE0FF18990E59b7e";
+const KEY_REGISTRY_ABI = parseAbi([
+  "function keyDataOf(uint256 fid, bytes key) view returns ((uint8 state, uint32 keyType))",
+]);
+const KEY_STATE_ADDED = 1;
+const KEY_TYPE_ED25519 = 1;
+
+// Hosts the server will POST notifications to. The endpoint comes from the
+// event, so anything else (another scheme, an internal address) is refused;
+// NOTIFICATION_HOSTS adds comma-separated hosts for other clients.
+const NOTIFICATION_HOSTS = [
+  "api.farcaster.xyz",
+  "api.warpcast.com",
+  ...(process.env.NOTIFICATION_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
+];
+
+const registry = createPublicClient({
+  chain: optimism,
+  transport: http(process.env.OPTIMISM_RPC_URL),
+});
+
+const decodeJson = (encoded: string): unknown => {
+  try {
+    return JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isAllowedNotificationUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return (
+      url.protocol === "https:" &&
+      !url.username &&
+      !url.password &&
+      NOTIFICATION_HOSTS.includes(url.host)
+    );
+  } catch {
+    return false;
+  }
+};
+
+const parseNotificationDetails = (
+  value: unknown
+): NotificationDetails | null =>
+  isObject(value) &&
+  typeof value.url === "string" &&
+  typeof value.token === "string" &&
+  isAllowedNotificationUrl(value.url)
+    ? { url: value.url, token: value.token }
+    : null;
+
+const parseEvent = (value: unknown): MiniAppEvent | null => {
+  if (!isObject(value)) return null;
+  const details = parseNotificationDetails(value.notificationDetails);
+
+  switch (value.event) {
+    case "frame_added":
+    case "miniapp_added":
+      return details
+        ? { event: value.event, notificationDetails: details }
+        : { event: value.event };
+    case "notifications_enabled":
+      return details ? { event: value.event, notificationDetails: details } : null;
+    case "frame_removed":
+    case "miniapp_removed":
+    case "notifications_disabled":
+      return { event: value.event };
+    default:
+      return null;
+  }
+};
+
+// Ed25519 signature check against the raw 32-byte app key
+const verifySignature = (
+  appKey: Hex,
+  data: string,
+  signature: Buffer
+): boolean => {
+  const raw = Buffer.from(appKey.slice(2), "hex");
+  if (raw.length !== 32) return false;
+
+  const key = createPublicKey({
+    key: { kty: "OKP", crv: "Ed25519", x: raw.toString("base64url") },
+    format: "jwk",
+  });
+  return verify(null, Buffer.from(data), key, signature);
+};
+
+// With no network (local development), SKIP_APP_KEY_CHECK=true trusts any
+// correctly signed event. Never honoured in production.
+const skipKeyCheck = () =>
+  process.env.NODE_ENV !== "production" &&
+  process.env.SKIP_APP_KEY_CHECK === "true";
+
+const isRegisteredAppKey = async (fid: number, appKey: Hex): Promise<boolean> => {
+  if (skipKeyCheck()) return true;
+
+  const { state, keyType } = await registry.readContract({
+    address: KEY_REGISTRY,
+    abi: KEY_REGISTRY_ABI,
+    functionName: "keyDataOf",
+    args: [BigInt(fid), appKey],
+  });
+  return state === KEY_STATE_ADDED && keyType === KEY_TYPE_ED25519;
+};
+
+// Verify a webhook body and decode its event. A failed registry lookup is a
+// 500 so the client retries; anything wrong with the event itself is a 4xx.
+export const verifyWebhookEvent = async (
+  body: unknown
+): Promise<WebhookResult> => {
+  if (
+    !isObject(body) ||
+    typeof body.header !== "string" ||
+    typeof body.payload !== "string" ||
+    typeof body.signature !== "string"
+  ) {
+    return { ok: false, message: "Invalid request body", status: 400 };
+  }
+
+  const header = decodeJson(body.header);
+  if (
+    !isObject(header) ||
+    header.type !== "app_key" ||
+    typeof header.fid !== "number" ||
+    typeof header.key !== "string" ||
+    !/^0x[0-9a-fA-F]{64}$/.test(header.key)
+  ) {
+    return { ok: false, message: "Invalid event header", status: 400 };
+  }
+
+  const event = parseEvent(decodeJson(body.payload));
+  if (!event) {
+    return { ok: false, message: "Invalid event payload", status: 400 };
+  }
+
+  const fid = header.fid;
+  const appKey = header.key as Hex;
+  const signature = Buffer.from(body.signature, "base64url");
+  if (!verifySignature(appKey, `${body.header}.${body.payload}`, signature)) {
+    return { ok: false, message: "Invalid signature", status: 401 };
+  }
+
+  try {
+    if (!(await isRegisteredAppKey(fid, appKey))) {
+      return { ok: false, message: "App key not registered to FID", status: 401 };
+    }
+  } catch (error) {
+    console.error("Error checking app key:", error);
+    return { ok: false, message: "Could not verify app key", status: 500 };
+  }
+
+  return { ok: true, fid: String(fid), appKey, event };
+};
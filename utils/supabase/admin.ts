@@ -0,0 +1,16 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+
+// Service-role client for route handlers only. It bypasses RLS and can read
+// player secrets, so it must never be imported from client components.
+export function createAdminClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
@@ -1,8 +1,21 @@
 import { createBrowserClient } from "@supabase/ssr";
 
+// localStorage key for the Supabase session JWT minted by /api/auth
+export const SESSION_TOKEN_KEY = "supabase_token";
+
+// Current session JWT, or null when signed out (or rendering on the server)
+export function getAccessToken(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(SESSION_TOKEN_KEY);
+}
+
 export function createClient() {
   return createBrowserClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      // Falls back to the anon key when there is no session yet
+      accessToken: async () => getAccessToken(),
+    }
   );
 }